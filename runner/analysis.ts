@@ -0,0 +1,110 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import type { AttributionConfig, CPUProfileAnalysis, FlowStepMetrics, PerformanceMetrics, SourceMapConfig } from './types';
+import CPUProfileAnalyzer from './analyzer.js';
+import { getFirstPartyDomains } from './attribution.js';
+import { loadProfiles, mergeProfiles } from './merge.js';
+import { analyzeMemoryProfile } from './memory.js';
+import { analyzeCoverage } from './coverage.js';
+import Formatter from './formatter.js';
+import type { AnalysisInputs } from './runs.js';
+
+export interface StepAnalysis {
+  name: string;
+  mode: FlowStepMetrics['mode'];
+  metrics: FlowStepMetrics | null;
+  analysis: CPUProfileAnalysis | null;
+}
+
+export interface RunAnalysis {
+  cpuReport: CPUProfileAnalysis;
+  auditReport: PerformanceMetrics | null;
+  steps?: StepAnalysis[];
+  markdown: string;
+}
+
+// Analyze several CPU profiles of the same page as their mean profile, a run ID
+// stands for the profiles of all its iterations
+export async function analyzeMergedProfiles(
+  references: string[],
+  sourceMaps?: SourceMapConfig,
+  attribution?: AttributionConfig
+): Promise<RunAnalysis> {
+  const profiles = [];
+  for (const reference of references) {
+    profiles.push(...await loadProfiles(reference));
+  }
+  const { profile, statistics } = await mergeProfiles(profiles, sourceMaps);
+
+  const analyzer = new CPUProfileAnalyzer(sourceMaps);
+  try {
+    await analyzer.analyzeCPUProfileData(profile);
+    const flamegraphData = await analyzer.generateFlamegraphData();
+    const attributionResult = await analyzer.attributeCPUTime(getFirstPartyDomains(attribution));
+    const cpuReport: CPUProfileAnalysis = {
+      ...analyzer.generate(flamegraphData, undefined, undefined, attributionResult),
+      statistics,
+    };
+    const title = `MERGED PERFORMANCE ANALYSIS (${statistics.profileCount} PROFILES)`;
+    return { cpuReport, auditReport: null, markdown: new Formatter().formatAnalysis(cpuReport, null, title) };
+  } finally {
+    await analyzer.sourceMapResolver.destroy();
+  }
+}
+
+// Analyze the artifacts of a run, user flows get one analysis per flow step
+export async function analyzeRun(
+  inputs: AnalysisInputs,
+  sourceMaps?: SourceMapConfig,
+  attribution?: AttributionConfig
+): Promise<RunAnalysis> {
+  const analyzer = new CPUProfileAnalyzer(sourceMaps);
+  try {
+    return await analyzeRunWith(analyzer, inputs, attribution);
+  } finally {
+    await analyzer.sourceMapResolver.destroy();
+  }
+}
+
+async function analyzeRunWith(
+  analyzer: CPUProfileAnalyzer,
+  inputs: AnalysisInputs,
+  attribution?: AttributionConfig
+): Promise<RunAnalysis> {
+  // The audited URL is the default first party
+  const auditReport = inputs.reportPath ? await analyzer.analyzeAuditReport(inputs.reportPath) : null;
+  const firstPartyDomains = getFirstPartyDomains(attribution, auditReport?.url);
+  const cpuReport = await analyzer.analyzeCPUProfile(inputs.cpuProfilePath, inputs.traceEventsPath, firstPartyDomains);
+  if (inputs.memoryProfilePath && existsSync(inputs.memoryProfilePath)) {
+    const memoryProfile = JSON.parse(await readFile(inputs.memoryProfilePath, 'utf-8'));
+    cpuReport.memory_analysis = await analyzeMemoryProfile(memoryProfile, analyzer.sourceMapResolver);
+  }
+  if (inputs.coveragePath && existsSync(inputs.coveragePath)) {
+    const coverage = JSON.parse(await readFile(inputs.coveragePath, 'utf-8'));
+    cpuReport.coverage_analysis = await analyzeCoverage(coverage, analyzer.sourceMapResolver);
+  }
+  const formatter = new Formatter();
+
+  if (!inputs.steps?.length) {
+    return { cpuReport, auditReport, markdown: formatter.formatAnalysis(cpuReport, auditReport) };
+  }
+
+  const steps: StepAnalysis[] = [];
+  for (const [index, step] of inputs.steps.entries()) {
+    let analysis: CPUProfileAnalysis | null = null;
+    if (step.cpuProfilePath) {
+      // Every step needs a fresh call tree, the source maps can be shared
+      const stepAnalyzer = new CPUProfileAnalyzer();
+      stepAnalyzer.sourceMapResolver = analyzer.sourceMapResolver;
+      analysis = await stepAnalyzer.analyzeCPUProfile(step.cpuProfilePath, step.traceEventsPath, firstPartyDomains);
+    }
+    steps.push({
+      name: step.name,
+      mode: step.mode,
+      metrics: auditReport?.steps?.[index] || null,
+      analysis,
+    });
+  }
+
+  return { cpuReport, auditReport, steps, markdown: formatter.formatFlowAnalysis(auditReport, steps) };
+}
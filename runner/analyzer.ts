@@ -1,11 +1,35 @@
 import { readFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import type { CPUProfile, CPUProfileNode, AggregatedFunction, CPUProfileAnalysis, PerformanceMetrics } from './types';
+import type {
+  CPUProfile,
+  CPUProfileNode,
+  AggregatedFunction,
+  CPUProfileAnalysis,
+  PerformanceMetrics,
+  TraceAnalysis,
+  InteractionAnalysis,
+  FlameProfile,
+  SourceMapConfig,
+  CPUAttribution,
+  AttributionGroup,
+} from './types';
 import { SourceMapResolver } from './resolver.js';
+import { TraceAnalyzer } from './trace.js';
+import { extractInteractions, getInteractionRating } from './interactions.js';
+import { logger } from './logger.js';
+import { FIRST_PARTY_ORIGIN, getAttributionGroups } from './attribution.js';
+
+// Deeper stacks are cut off in the report
+const MAX_STACK_DEPTH = 25;
+const MAX_REPORTED_FUNCTIONS = 10;
 
 class CPUProfileAnalyzer {
-  sourceMapResolver = new SourceMapResolver();
+  sourceMapResolver: SourceMapResolver;
   private nodeById = new Map<number, CPUProfileNode>();
+  // Source-mapped frames by call frame key, filled for the call stacks of the top functions
+  private resolvedFrames = new Map<string, AggregatedFunction>();
+  // Collapsed samples with their times in µs since the profile start
+  private sampleData = { collapsedSamples: [] as number[], sampleTimes: [] as number[], startTime: 0 };
   private analysisResults = {
     topFunctions: [] as AggregatedFunction[],
     rawData: {
@@ -16,7 +40,11 @@ class CPUProfileAnalyzer {
     }
   };
 
-  async analyzeCPUProfile(cpuProfilePath: string, traceEventsPath: string) {
+  constructor(sourceMaps?: SourceMapConfig) {
+    this.sourceMapResolver = new SourceMapResolver(sourceMaps);
+  }
+
+  async analyzeCPUProfile(cpuProfilePath: string, traceEventsPath: string, firstPartyDomains: string[] = []) {
     try {
       let traceEvents = null;
       const cpuProfile = JSON.parse(await readFile(cpuProfilePath, 'utf8'));
@@ -28,14 +56,112 @@ class CPUProfileAnalyzer {
       await this.analyzeCPUProfileData(cpuProfile);
 
       const flamegraphData = await this.generateFlamegraphData();
-      const report = this.generate(flamegraphData);
+      const traceAnalysis = traceEvents ? this.analyzeTraceEvents(traceEvents) : null;
+      const interactions = traceEvents ? await this.analyzeInteractions(traceEvents) : null;
+      const attribution = await this.attributeCPUTime(firstPartyDomains);
+      const report = this.generate(flamegraphData, traceAnalysis, interactions, attribution);
       return report;
     } catch (error) {
-      console.error('Error analyzing CPU profile:', error);
+      logger.error('Error analyzing CPU profile:', error);
       throw error;
     }
   }
 
+  analyzeTraceEvents(traceEvents: any[]): TraceAnalysis | null {
+    try {
+      return new TraceAnalyzer().analyze(traceEvents);
+    } catch (error) {
+      logger.warn('Failed to analyze trace events:', error.message);
+      return null;
+    }
+  }
+
+  // Break each interaction down into its INP phases and find the functions that
+  // ran while its event handlers were processing. CPU profile and trace timestamps
+  // share the same monotonic clock.
+  async analyzeInteractions(traceEvents: any[]): Promise<InteractionAnalysis[] | null> {
+    try {
+      const interactions = extractInteractions(traceEvents);
+      if (interactions.length === 0) {
+        return null;
+      }
+      // A loop rather than a spread, traces have hundreds of thousands of events
+      const traceStart = traceEvents.reduce((min, event) => event.ts > 0 && event.ts < min ? event.ts : min, Infinity);
+
+      const results: InteractionAnalysis[] = [];
+      for (const interaction of interactions) {
+        const functions = await this.resolveSourceMaps(
+          this.getFunctionsInWindow(interaction.processingStart, interaction.processingEnd).slice(0, 5)
+        );
+        results.push({
+          interaction_id: interaction.interactionId,
+          type: interaction.type,
+          start_ms: Math.round((interaction.start - traceStart) / 1000),
+          duration_ms: interaction.duration,
+          input_delay_ms: interaction.inputDelay,
+          processing_time_ms: interaction.processingTime,
+          presentation_delay_ms: interaction.presentationDelay,
+          rating: getInteractionRating(interaction.duration),
+          processing_functions: functions.map(func => ({
+            function: func.originalName || func.functionName,
+            file: this.getFileNameFromUrl(func.url),
+            self_time_ms: func.selfTime,
+            location: `${func.url}:${func.lineNumber}`,
+            originalFile: func.originalFile,
+            originalLine: func.originalLine,
+            originalColumn: func.originalColumn,
+            isSourceMapped: func.isSourceMapped,
+          })),
+        });
+      }
+      return results.sort((a, b) => b.duration_ms - a.duration_ms);
+    } catch (error) {
+      logger.warn('Failed to analyze interactions:', error.message);
+      return null;
+    }
+  }
+
+  // Self time per function for the samples overlapping the [start, end] trace window (µs)
+  private getFunctionsInWindow(start: number, end: number): AggregatedFunction[] {
+    const { collapsedSamples, sampleTimes, startTime } = this.sampleData;
+    const byFrame = new Map<string, AggregatedFunction>();
+
+    for (let i = 0; i < collapsedSamples.length - 1; i++) {
+      const sampleStart = startTime + sampleTimes[i];
+      const sampleEnd = startTime + sampleTimes[i + 1];
+      const overlap = Math.min(end, sampleEnd) - Math.max(start, sampleStart);
+      if (overlap <= 0) continue;
+
+      const node = this.nodeById.get(collapsedSamples[i]);
+      if (!node || this.shouldIgnoreFunction(node.callFrame) || node.callFrame.functionName === '(program)') continue;
+
+      const key = this.getCallFrameKey(node.callFrame);
+      const func = byFrame.get(key) || {
+        nodeId: node.id,
+        functionName: this.getDisplayName(node.callFrame),
+        url: node.callFrame.url || '(unknown)',
+        lineNumber: (node.callFrame.lineNumber || 0) + 1,
+        columnNumber: (node.callFrame.columnNumber || 0) + 1,
+        selfTime: 0,
+        totalTime: 0,
+        hitCount: 0,
+        percentage: '0.00'
+      };
+      func.selfTime += overlap;
+      func.hitCount++;
+      byFrame.set(key, func);
+    }
+
+    const windowTime = end - start;
+    return Array.from(byFrame.values())
+      .sort((a, b) => b.selfTime - a.selfTime)
+      .map(func => ({
+        ...func,
+        percentage: windowTime > 0 ? ((func.selfTime / windowTime) * 100).toFixed(2) : '0.00',
+        selfTime: Math.round(func.selfTime / 100) / 10,
+      }));
+  }
+
   async loadAuditReport(reportPath: string): Promise<PerformanceMetrics> {
     if (!existsSync(reportPath)) {
       throw new Error('Audit report not found');
@@ -45,7 +171,15 @@ class CPUProfileAnalyzer {
 
   async analyzeAuditReport(reportPath: string) {
     const report = await this.loadAuditReport(reportPath);
-    // loop through the audit report and try to map the long task functions to original source code 
+    await this.resolveLongTasks(report);
+    for (const step of report.steps || []) {
+      await this.resolveLongTasks(step);
+    }
+    return report;
+  }
+
+  // loop through the audit report and try to map the long task functions to original source code
+  private async resolveLongTasks(report: Pick<PerformanceMetrics, 'longTasks'>) {
     if (report.longTasks && report.longTasks.details && (report.longTasks.details as any).items) {
       const longTaskItems = (report.longTasks.details as any).items;
 
@@ -55,17 +189,22 @@ class CPUProfileAnalyzer {
             url: item.url,
           }))
         );
-        resolvedLocations.forEach((location, index) => {
+        for (const [index, location] of resolvedLocations.entries()) {
           if (location.isResolved) {
             longTaskItems[index].url = location.originalFile;
             longTaskItems[index].line = location.originalLine;
             longTaskItems[index].column = location.originalColumn;
+            const snippet = await this.sourceMapResolver.getSourceSnippet(
+              location.minifiedUrl, location.fullOriginalPath, location.originalLine
+            );
+            if (snippet) {
+              longTaskItems[index].snippet = snippet;
+            }
           }
-        });
+        }
         report.longTasks.details['items'] = longTaskItems;
       }
     }
-    return report;
   }
 
   async analyzeCPUProfileData(cpuProfile: CPUProfile) {
@@ -76,7 +215,11 @@ class CPUProfileAnalyzer {
 
     // Build node relationships using Speedscope's exact approach
     this.nodeById.clear(); // Clear any previous data
+    this.resolvedFrames.clear();
     for (let node of nodes) {
+      // Frames that were never on top of the stack keep no self time, their
+      // total time is what their sampled descendants add up to
+      node.selfTime = 0;
       this.nodeById.set(node.id, node);
     }
 
@@ -95,6 +238,7 @@ class CPUProfileAnalyzer {
     }
 
     const { collapsedSamples, sampleTimes } = this.processSamplesSpeedscope(samples, timeDeltas, startTime);
+    this.sampleData = { collapsedSamples, sampleTimes, startTime: startTime || 0 };
     const selfTimes = new Map<number, number>();
     const hitCounts = new Map<number, number>();
 
@@ -148,25 +292,103 @@ class CPUProfileAnalyzer {
     }));
 
     await this.resolveSourceMapsForTopFunctions();
+    await this.resolveStackTraces();
+    await this.resolveSourceSnippets();
+  }
+
+  // Snippets are only read for the functions that make it into the report
+  private async resolveSourceSnippets(): Promise<void> {
+    const { topFunctions } = this.analysisResults;
+    for (const func of topFunctions.slice(0, MAX_REPORTED_FUNCTIONS)) {
+      if (!func.isSourceMapped || !func.fullOriginalPath) continue;
+      const snippet = await this.sourceMapResolver.getSourceSnippet(func.url, func.fullOriginalPath, func.originalLine);
+      if (snippet) {
+        func.sourceSnippet = snippet;
+      }
+    }
   }
 
   private async resolveSourceMapsForTopFunctions(): Promise<void> {
-    try {
-      const functionsWithNodes = this.analysisResults.topFunctions.map(func => ({
-        func,
-        node: this.nodeById.get(func.nodeId)
-      }));
+    this.analysisResults.topFunctions = await this.resolveSourceMaps(this.analysisResults.topFunctions);
+  }
+
+  // Resolve every frame of the call stacks leading to the top functions in one
+  // batch, each function gets its stack trace from the leaf up to the root
+  private async resolveStackTraces(): Promise<void> {
+    const { topFunctions } = this.analysisResults;
+    const unresolved = new Map<string, AggregatedFunction>();
+    for (const func of topFunctions) {
+      for (const node of this.getCallerChain(func.nodeId)) {
+        const key = this.getCallFrameKey(node.callFrame);
+        if (!this.resolvedFrames.has(key) && !unresolved.has(key)) {
+          unresolved.set(key, this.toFrameFunction(node));
+        }
+      }
+    }
+    if (unresolved.size > 0) {
+      const resolved = await this.resolveSourceMaps(Array.from(unresolved.values()));
+      Array.from(unresolved.keys()).forEach((key, index) => this.resolvedFrames.set(key, resolved[index]));
+    }
 
+    this.analysisResults.topFunctions = topFunctions.map(func => ({
+      ...func,
+      resolvedStackTrace: this.formatStackTrace(this.getCallerChain(func.nodeId)),
+    }));
+  }
+
+  // The node and its callers up to the root, leaving out (root) itself
+  private getCallerChain(nodeId: number): CPUProfileNode[] {
+    const chain: CPUProfileNode[] = [];
+    for (let node = this.nodeById.get(nodeId); node; node = node.parent) {
+      if (!this.shouldIgnoreFunction(node.callFrame)) {
+        chain.push(node);
+      }
+    }
+    return chain;
+  }
+
+  private formatStackTrace(chain: CPUProfileNode[]): string {
+    const lines = chain.slice(0, MAX_STACK_DEPTH).map(node => {
+      const frame = this.resolvedFrames.get(this.getCallFrameKey(node.callFrame)) || this.toFrameFunction(node);
+      if (frame.isSourceMapped) {
+        return `at ${frame.originalName || frame.functionName} (${frame.fullOriginalPath || frame.originalFile}:${frame.originalLine}:${frame.originalColumn})`;
+      }
+      return frame.url
+        ? `at ${frame.functionName} (${frame.url}:${frame.lineNumber}:${frame.columnNumber})`
+        : `at ${frame.functionName}`;
+    });
+    if (chain.length > MAX_STACK_DEPTH) {
+      lines.push(`... ${chain.length - MAX_STACK_DEPTH} more frames`);
+    }
+    return lines.join('\n');
+  }
+
+  private toFrameFunction(node: CPUProfileNode): AggregatedFunction {
+    return {
+      nodeId: node.id,
+      functionName: this.getDisplayName(node.callFrame),
+      url: node.callFrame.url || '',
+      lineNumber: (node.callFrame.lineNumber || 0) + 1,
+      columnNumber: (node.callFrame.columnNumber || 0) + 1,
+      selfTime: 0,
+      totalTime: 0,
+      hitCount: 0,
+      percentage: '0.00'
+    };
+  }
+
+  private async resolveSourceMaps(functions: AggregatedFunction[]): Promise<AggregatedFunction[]> {
+    try {
       const resolvedLocations = await this.sourceMapResolver.resolveLocations(
-        functionsWithNodes.map(item => ({
-          url: item.func.url,
-          line: item.func.lineNumber,
-          column: item.func.columnNumber,
-          originalFunctionName: item.func.functionName // Pass original function name for context
+        functions.map(func => ({
+          url: func.url,
+          line: func.lineNumber,
+          column: func.columnNumber,
+          originalFunctionName: func.functionName // Pass original function name for context
         }))
       );
-      // Update top functions with resolved locations and enhanced information
-      this.analysisResults.topFunctions = this.analysisResults.topFunctions.map((func, index) => {
+      // Update functions with resolved locations and enhanced information
+      const resolvedFunctions = functions.map((func, index) => {
         const resolved = resolvedLocations[index];
         if (resolved.isResolved) {
           return {
@@ -185,11 +407,239 @@ class CPUProfileAnalyzer {
 
       const resolvedCount = resolvedLocations.filter(r => r.isResolved).length;
       if (resolvedCount > 0) {
-        console.info(`✅ Resolved source maps for ${resolvedCount}/${resolvedLocations.length} functions`);
+        logger.info(`✅ Resolved source maps for ${resolvedCount}/${resolvedLocations.length} functions`);
       }
+      return resolvedFunctions;
     } catch (error) {
-      console.warn(`Failed to resolve source maps: ${error.message}`);
+      logger.warn(`Failed to resolve source maps: ${error.message}`);
+      return functions;
+    }
+  }
+
+  // Aggregate every sampled node of the analyzed profile by call frame, so a function
+  // called from several places is reported once. Total time only counts the outermost
+  // frame of recursive calls to avoid double counting.
+  async aggregateFunctions(limit = 200): Promise<AggregatedFunction[]> {
+    const { totalTime } = this.analysisResults.rawData;
+    const byFrame = new Map<string, AggregatedFunction>();
+
+    for (const node of this.nodeById.values()) {
+      if (this.shouldIgnoreFunction(node.callFrame)) continue;
+      const key = this.getCallFrameKey(node.callFrame);
+
+      let func = byFrame.get(key);
+      if (!func) {
+        func = {
+          nodeId: node.id,
+          functionName: this.getDisplayName(node.callFrame),
+          url: node.callFrame.url || '(unknown)',
+          lineNumber: (node.callFrame.lineNumber || 0) + 1,
+          columnNumber: (node.callFrame.columnNumber || 0) + 1,
+          selfTime: 0,
+          totalTime: 0,
+          hitCount: 0,
+          percentage: '0.00'
+        };
+        byFrame.set(key, func);
+      }
+
+      func.selfTime += node.selfTime || 0;
+      func.hitCount += node.hitCount || 0;
+      if (!this.hasAncestorWithKey(node, key)) {
+        func.totalTime += node.totalTime || 0;
+      }
+    }
+
+    const functions = Array.from(byFrame.values())
+      .filter(func => func.totalTime > 0)
+      .sort((a, b) => b.totalTime - a.totalTime)
+      .slice(0, limit)
+      .map(func => ({
+        ...func,
+        exactSelfTime: func.selfTime,
+        selfTime: Math.round(func.selfTime / 1000),
+        totalTime: Math.round(func.totalTime / 1000),
+        percentage: totalTime > 0 ? ((func.selfTime / 1000 / totalTime) * 100).toFixed(2) : '0.00'
+      }));
+
+    return this.resolveSourceMaps(functions);
+  }
+
+  // Bottom-up attribution of the sampled time to origins, npm packages and original
+  // source directories. Frames without a script (native code, GC) count towards their
+  // caller, and a group's total time is the time any of its frames is on the stack.
+  async attributeCPUTime(firstPartyDomains: string[] = []): Promise<CPUAttribution> {
+    const { collapsedSamples, sampleTimes } = this.sampleData;
+    const hasScript = (node: CPUProfileNode) => !!node.callFrame.url && !this.shouldIgnoreFunction(node.callFrame);
+
+    const frames = new Map<string, AggregatedFunction>();
+    for (const node of this.nodeById.values()) {
+      const key = this.getCallFrameKey(node.callFrame);
+      if (hasScript(node) && !frames.has(key)) {
+        frames.set(key, this.toFrameFunction(node));
+      }
+    }
+    const resolved = frames.size > 0 ? await this.resolveSourceMaps(Array.from(frames.values())) : [];
+    const groupsByFrame = new Map<string, string[]>();
+    Array.from(frames.keys()).forEach((key, index) => {
+      groupsByFrame.set(key, getAttributionGroups(resolved[index], firstPartyDomains));
+    });
+
+    const groupsByNode = new Map<number, string[]>();
+    const getGroups = (node: CPUProfileNode): string[] => {
+      let groups = groupsByNode.get(node.id);
+      if (!groups) {
+        groups = hasScript(node)
+          ? groupsByFrame.get(this.getCallFrameKey(node.callFrame))
+          : node.parent ? getGroups(node.parent) : [];
+        groupsByNode.set(node.id, groups);
+      }
+      return groups;
+    };
+    const stackGroupsByNode = new Map<number, Set<string>>();
+    const getStackGroups = (node: CPUProfileNode): Set<string> => {
+      let groups = stackGroupsByNode.get(node.id);
+      if (!groups) {
+        groups = new Set([...(node.parent ? getStackGroups(node.parent) : []), ...getGroups(node)]);
+        stackGroupsByNode.set(node.id, groups);
+      }
+      return groups;
+    };
+
+    const selfTimes = new Map<string, number>();
+    const totalTimes = new Map<string, number>();
+    let profileTime = 0;
+    for (let i = 0; i < collapsedSamples.length - 1; i++) {
+      const node = this.nodeById.get(collapsedSamples[i]);
+      const weight = sampleTimes[i + 1] - sampleTimes[i];
+      if (!node || weight <= 0 || this.shouldIgnoreFunction(node.callFrame)) continue;
+      profileTime += weight;
+      for (const group of getGroups(node)) {
+        selfTimes.set(group, (selfTimes.get(group) || 0) + weight);
+      }
+      for (const group of getStackGroups(node)) {
+        totalTimes.set(group, (totalTimes.get(group) || 0) + weight);
+      }
+    }
+
+    const toGroups = (kind: string): AttributionGroup[] => Array.from(totalTimes.keys())
+      .filter(group => group.startsWith(`${kind}:`))
+      .map(group => ({
+        name: group.slice(kind.length + 1),
+        selfTime: Math.round((selfTimes.get(group) || 0) / 100) / 10,
+        totalTime: Math.round(totalTimes.get(group) / 100) / 10,
+        percentage: profileTime > 0 ? (((selfTimes.get(group) || 0) / profileTime) * 100).toFixed(2) : '0.00',
+      }))
+      .sort((a, b) => b.selfTime - a.selfTime || b.totalTime - a.totalTime);
+
+    return {
+      firstPartyDomains,
+      origins: toGroups('origin').map(group => ({ ...group, firstParty: group.name === FIRST_PARTY_ORIGIN })),
+      packages: toGroups('package'),
+      directories: toGroups('directory'),
+    };
+  }
+
+  // The stack of every sample from the outermost caller down to the sampled node,
+  // idle samples and ignored frames are left out
+  getSampledStacks(): Array<{ stack: CPUProfileNode[]; weight: number }> {
+    const { collapsedSamples, sampleTimes } = this.sampleData;
+    const stackByNode = new Map<number, CPUProfileNode[]>();
+    const stacks: Array<{ stack: CPUProfileNode[]; weight: number }> = [];
+    for (let i = 0; i < collapsedSamples.length - 1; i++) {
+      const weight = sampleTimes[i + 1] - sampleTimes[i];
+      if (weight <= 0) continue;
+      let stack = stackByNode.get(collapsedSamples[i]);
+      if (!stack) {
+        stack = this.getCallerChain(collapsedSamples[i]).reverse();
+        stackByNode.set(collapsedSamples[i], stack);
+      }
+      if (stack.length > 0) {
+        stacks.push({ stack, weight });
+      }
+    }
+    return stacks;
+  }
+
+  // The source-mapped frame of each node, every distinct call frame is resolved once
+  async resolveNodeFrames(nodes: CPUProfileNode[]): Promise<Map<number, AggregatedFunction>> {
+    const frames = new Map<string, AggregatedFunction>();
+    for (const node of nodes) {
+      const key = this.getCallFrameKey(node.callFrame);
+      if (!frames.has(key)) {
+        frames.set(key, this.toFrameFunction(node));
+      }
+    }
+    const resolved = frames.size > 0 ? await this.resolveSourceMaps(Array.from(frames.values())) : [];
+    const resolvedByKey = new Map(Array.from(frames.keys()).map((key, index) => [key, resolved[index]]));
+    return new Map(nodes.map(node => [node.id, resolvedByKey.get(this.getCallFrameKey(node.callFrame))]));
+  }
+
+  // Every sampled stack of the analyzed profile with its frames resolved through
+  // the source maps, idle samples are left out
+  async buildFlameProfile(name: string): Promise<FlameProfile> {
+    const { collapsedSamples, sampleTimes } = this.sampleData;
+    const frameIndexByKey = new Map<string, number>();
+    const frameFunctions: AggregatedFunction[] = [];
+    const stackByNode = new Map<number, number[]>();
+
+    const getStack = (node: CPUProfileNode): number[] => {
+      if (stackByNode.has(node.id)) {
+        return stackByNode.get(node.id);
+      }
+      const stack: number[] = [];
+      for (let current = node; current; current = current.parent) {
+        if (this.shouldIgnoreFunction(current.callFrame)) continue;
+        const key = this.getCallFrameKey(current.callFrame);
+        let index = frameIndexByKey.get(key);
+        if (index === undefined) {
+          index = frameFunctions.length;
+          frameIndexByKey.set(key, index);
+          frameFunctions.push(this.toFrameFunction(current));
+        }
+        stack.push(index);
+      }
+      stack.reverse();
+      stackByNode.set(node.id, stack);
+      return stack;
+    };
+
+    const samples: number[][] = [];
+    const weights: number[] = [];
+    for (let i = 0; i < collapsedSamples.length - 1; i++) {
+      const node = this.nodeById.get(collapsedSamples[i]);
+      const weight = sampleTimes[i + 1] - sampleTimes[i];
+      if (!node || weight <= 0) continue;
+      const stack = getStack(node);
+      if (stack.length === 0) continue;
+      samples.push(stack);
+      weights.push(weight);
+    }
+
+    const resolved = frameFunctions.length > 0 ? await this.resolveSourceMaps(frameFunctions) : [];
+    return {
+      name,
+      frames: resolved.map(func => ({
+        name: func.isSourceMapped ? func.originalName || func.functionName : func.functionName,
+        file: func.isSourceMapped ? func.fullOriginalPath || func.originalFile : func.url,
+        line: func.isSourceMapped ? func.originalLine : func.lineNumber,
+        column: func.isSourceMapped ? func.originalColumn : func.columnNumber,
+        isSourceMapped: !!func.isSourceMapped,
+      })),
+      samples,
+      weights,
+    };
+  }
+
+  private getCallFrameKey(callFrame: CPUProfileNode['callFrame']): string {
+    return `${callFrame.functionName}|${callFrame.url}|${callFrame.lineNumber}|${callFrame.columnNumber}`;
+  }
+
+  private hasAncestorWithKey(node: CPUProfileNode, key: string): boolean {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (this.getCallFrameKey(parent.callFrame) === key) return true;
     }
+    return false;
   }
 
   // Speedscope's exact sample processing algorithm
@@ -245,7 +695,7 @@ class CPUProfileAnalyzer {
       const node = nodeById.get(nodeId);
       if (!node) return 0;
 
-      let totalTime = node.selfTime;
+      let totalTime = node.selfTime || 0;
       if (node.children) {
         for (const childId of node.children) {
           totalTime += calculateTotal(childId);
@@ -306,7 +756,7 @@ class CPUProfileAnalyzer {
 
       const node = nodeMap.get(nodeId);
       if (!node) return 0;
-      let totalTime = node.selfTime;
+      let totalTime = node.selfTime || 0;
       if (node.children) {
         for (const childId of node.children) {
           totalTime += calculateTotal(childId);
@@ -349,7 +799,7 @@ class CPUProfileAnalyzer {
         visualSummary: this.createVisualSummary()
       };
     } catch (error) {
-      console.warn('Failed to generate flamegraph data:', error.message);
+      logger.warn('Failed to generate flamegraph data:', error.message);
       return null;
     }
   }
@@ -380,7 +830,7 @@ class CPUProfileAnalyzer {
       const path = this.buildCallPath(func);
       if (path.length > 1) {
         hotPaths.push({
-          path: path.map(f => f.functionName),
+          path: path.map(f => (f.isSourceMapped && f.originalName) || f.functionName),
           totalTime: func.totalTime,
           percentage: func.percentage
         });
@@ -440,8 +890,11 @@ class CPUProfileAnalyzer {
     }));
   }
 
+  // The source-mapped frames from the root down to the function
   private buildCallPath(func: AggregatedFunction): AggregatedFunction[] {
-    return [func];
+    return this.getCallerChain(func.nodeId)
+      .reverse()
+      .map(node => this.resolvedFrames.get(this.getCallFrameKey(node.callFrame)) || this.toFrameFunction(node));
   }
 
   private findChildFunctions(parentFunc: AggregatedFunction): Array<{ name: string, selfTime: number }> {
@@ -480,7 +933,12 @@ class CPUProfileAnalyzer {
     }
   }
 
-  generate(flamegraphData?: any): CPUProfileAnalysis {
+  generate(
+    flamegraphData?: any,
+    traceAnalysis?: TraceAnalysis,
+    interactions?: InteractionAnalysis[],
+    attribution?: CPUAttribution
+  ): CPUProfileAnalysis {
     const { rawData, topFunctions } = this.analysisResults;
     return {
       executive_summary: {
@@ -488,7 +946,7 @@ class CPUProfileAnalyzer {
         total_samples: rawData.totalSamples,
         sample_interval_ms: rawData.sampleInterval,
       },
-      high_impact_functions: topFunctions.slice(0, 10).map(func => ({
+      high_impact_functions: topFunctions.slice(0, MAX_REPORTED_FUNCTIONS).map(func => ({
         function: func.functionName,
         file: this.getFileNameFromUrl(func.url),
         execution_time_ms: func.selfTime,
@@ -504,9 +962,13 @@ class CPUProfileAnalyzer {
         // Enhanced fields for better LLM analysis
         fullOriginalPath: func.fullOriginalPath,
         sourceMapUrl: func.sourceMapUrl,
-        resolvedStackTrace: func.resolvedStackTrace
+        resolvedStackTrace: func.resolvedStackTrace,
+        sourceSnippet: func.sourceSnippet
       })),
       flamegraph_analysis: flamegraphData,
+      trace_analysis: traceAnalysis || undefined,
+      interactions: interactions || undefined,
+      attribution: attribution || undefined,
     };
   }
 }
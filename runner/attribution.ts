@@ -0,0 +1,60 @@
+import type { AggregatedFunction, AttributionConfig } from './types';
+
+export const FIRST_PARTY_ORIGIN = 'first-party';
+
+// The configured domains, or the audited site's host without www. so its
+// subdomains (e.g. a static asset host) count as first party too
+export function getFirstPartyDomains(config: AttributionConfig = {}, pageUrl?: string): string[] {
+  if (config.firstPartyDomains?.length) {
+    return config.firstPartyDomains.map(domain => domain.toLowerCase().replace(/^\*?\./, ''));
+  }
+  const host = pageUrl ? getHost(pageUrl) : null;
+  return host ? [host.replace(/^www\./, '')] : [];
+}
+
+export function isFirstPartyHost(host: string, firstPartyDomains: string[]): boolean {
+  return firstPartyDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+}
+
+// The groups a frame's time is attributed to, prefixed by the kind of group
+export function getAttributionGroups(func: AggregatedFunction, firstPartyDomains: string[]): string[] {
+  const host = getHost(func.url);
+  const groups = [`origin:${!host ? '(unknown)' : isFirstPartyHost(host, firstPartyDomains) ? FIRST_PARTY_ORIGIN : host}`];
+  const originalPath = func.isSourceMapped ? func.fullOriginalPath || func.originalFile : null;
+  if (originalPath) {
+    const packageName = getPackageName(originalPath);
+    if (packageName) {
+      groups.push(`package:${packageName}`);
+    }
+    groups.push(`directory:${getSourceDirectory(originalPath)}`);
+  }
+  return groups;
+}
+
+// The innermost package of a path, scoped packages keep their scope
+export function getPackageName(path: string): string | null {
+  const matches = Array.from(path.matchAll(/node_modules\/((?:@[^/]+\/)?[^/]+)/g));
+  return matches.length > 0 ? matches[matches.length - 1][1] : null;
+}
+
+// The first directories of an original source path, without the scheme and
+// the webpack namespace (webpack://my-app/./src/index.ts is in src, also once
+// the source map library normalized it to webpack://my-app/src/index.ts)
+export function getSourceDirectory(path: string, depth = 1): string {
+  const webpackPath = path.match(/^webpack:\/\/[^/]*\/(.*)$/);
+  let sourcePath = webpackPath ? webpackPath[1] : path.replace(/^[a-z][\w+.-]*:\/\//i, '');
+  const namespaceEnd = sourcePath.indexOf('/./');
+  if (namespaceEnd >= 0) {
+    sourcePath = sourcePath.slice(namespaceEnd + 3);
+  }
+  const segments = sourcePath.split('/').filter(segment => segment && segment !== '.' && segment !== '..');
+  return segments.length > 1 ? segments.slice(0, Math.min(depth, segments.length - 1)).join('/') : '(root)';
+}
+
+function getHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
@@ -1,35 +1,42 @@
+import { EventEmitter } from "events";
 import puppeteer, { Browser, CDPSession, Page } from "puppeteer";
 import { Config, OutputMode, startFlow, FlowResult } from "lighthouse";
-import { writeFile, mkdir } from "fs/promises";
-import { join } from "path";
-import { TestConfig, PerformanceMetrics, MetricRating } from './types.js';
-
-// Output directory for audit results
-export const outputDir = join(process.cwd(), 'results');
-
-// To be able to profile Kibana page, we need to login first
-async function handleKibanaLogin(page: Page, url: string) {
-  await page.setRequestInterception(true);
-  page.on('request', async (request) => {
-    if (request.url().includes('/login') && request.method() === 'POST') {
-      request.continue();
-    } else {
-      request.continue();
-    }
-  });
-  const baseURL = new URL(url);
-  const kbnPath = baseURL.pathname.split('/')[1];
-  await page.goto(`${baseURL.origin}/${kbnPath}/login`, { waitUntil: 'load' });
-  await page.locator("[data-test-subj='loginUsername']").fill("elastic");
-  await page.locator("[data-test-subj='loginPassword']").fill("changeme");
-  await page.locator("[data-test-subj='loginSubmit']").click();
-  await page.waitForNavigation();
-}
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import {
+  TestConfig,
+  PerformanceMetrics,
+  MetricRating,
+  RunArtifacts,
+  AggregatedMetrics,
+  AuthConfig,
+  AuditPhase,
+  AuditPhaseEvent,
+  FlowStep,
+  FlowStepMode,
+  FlowStepMetrics,
+  StepArtifacts,
+  ThrottlingSettings,
+  DeviceProfile,
+} from './types.js';
+import { createRunId, createRunDir, writeManifest } from './runs.js';
+import { aggregateRuns } from './stats.js';
+import { evaluateBudget } from './budget.js';
+import { applyAuth, getAuthConfig, redactAuth } from './auth.js';
+import { getDeviceProfile } from './devices.js';
+import { applyThrottling, describeThrottling, getLighthouseThrottling, getThrottlingSettings } from './throttling.js';
+import { logger } from './logger.js';
+import { MemoryRecording, startMemoryRecording } from './memory.js';
+import { startCoverageRecording } from './coverage.js';
 
-export class AuditRunner {
+// Emits a 'phase' event with an AuditPhaseEvent whenever the audit moves on
+export class AuditRunner extends EventEmitter {
   options: TestConfig;
-  deviceConfigs: Record<string, { viewport: { width: number; height: number } }>;
+  private signal: AbortSignal | null = null;
+  private progress = { iteration: 0, runs: 1 };
+
   constructor(options = {}) {
+    super();
     this.options = {
       url: "",
       device: "desktop",
@@ -37,37 +44,107 @@ export class AuditRunner {
       headless: true,
       ...options,
     };
-
-    this.deviceConfigs = {
-      desktop: {
-        viewport: { width: 1366, height: 768 },
-      },
-      mobile: {
-        viewport: { width: 375, height: 812 },
-      },
-    };
   }
 
-  async runAudit(url: string): Promise<PerformanceMetrics> {
-    await mkdir(outputDir, { recursive: true });
-    console.info(`Starting performance audit for: ${url}`);
+  // Aborting the signal stops the audit at the next step and closes the browser
+  async runAudit(url: string, signal?: AbortSignal): Promise<PerformanceMetrics> {
+    this.signal = signal || null;
+    this.throwIfCancelled();
+    const runId = createRunId();
+    const runDir = await createRunDir(runId);
+    const runs = Math.max(1, Math.floor(this.options.runs || 1));
+    this.progress = { iteration: 0, runs };
+    const device = getDeviceProfile(this.options.device, this.options.devices);
+    // Resolved once, every iteration throttles its profiling navigation and Lighthouse the same
+    const throttlingConfig = this.options.throttling || device.throttling;
+    const throttling = throttlingConfig ? getThrottlingSettings(throttlingConfig) : null;
+    logger.info(`Starting performance audit for: ${url} (run ${runId})`);
+    if (throttlingConfig) {
+      logger.info(`Throttling: ${describeThrottling(throttlingConfig)}`);
+    }
     try {
-      const result = await this.runSingleTest(url);
-      await this.saveResults(result);
+      const iterations: Array<{ result: PerformanceMetrics, artifacts: Partial<RunArtifacts> }> = [];
+      for (let i = 0; i < runs; i++) {
+        // A single run keeps its artifacts at the top of the run directory
+        const subDir = runs > 1 ? `iteration-${i + 1}` : '';
+        this.progress.iteration = i + 1;
+        if (subDir) {
+          logger.info(`Running iteration ${i + 1}/${runs}`);
+          await mkdir(join(runDir, subDir), { recursive: true });
+        }
+        const artifacts: Partial<RunArtifacts> = {};
+        const result = await this.runSingleTest(url, device, throttling, runDir, subDir, artifacts);
+        if (subDir) {
+          artifacts.report = await this.saveResults(result, runDir, subDir);
+        }
+        iterations.push({ result, artifacts });
+      }
+
+      let { result, artifacts } = iterations[0];
+      let aggregate: AggregatedMetrics;
+      this.progress.iteration = 0;
+      if (runs > 1) {
+        this.emitPhase('analyzing', `Aggregating ${runs} runs`);
+        aggregate = aggregateRuns(iterations.map(iteration => iteration.result));
+        const representative = iterations[aggregate.representativeRun - 1];
+        result = { ...representative.result, aggregate };
+        artifacts = { ...representative.artifacts };
+        logger.info(`Iteration ${aggregate.representativeRun} is closest to the median`);
+      }
+
+      result.runId = runId;
+      if (this.options.budget) {
+        this.emitPhase('analyzing', 'Evaluating the performance budget');
+        const cpuProfile = artifacts.cpuProfile
+          ? JSON.parse(await readFile(join(runDir, artifacts.cpuProfile), 'utf-8'))
+          : undefined;
+        result.budget = await evaluateBudget(this.options.budget, result, cpuProfile, this.options.sourceMaps);
+        logger.info(`Performance budget ${result.budget.passed ? 'passed ✅' : 'failed ❌'}`);
+      }
+      this.throwIfCancelled();
+      this.emitPhase('saving', 'Saving the report and run manifest');
+      artifacts.report = await this.saveResults(result, runDir);
+      await writeManifest({
+        runId,
+        url,
+        device: this.options.device,
+        timestamp: result.timestamp,
+        config: { ...this.options, url, auth: redactAuth(this.options.auth) },
+        artifacts: artifacts as RunArtifacts,
+        ...(aggregate && {
+          representativeRun: aggregate.representativeRun,
+          iterations: iterations.map((iteration, index) => ({
+            index: index + 1,
+            artifacts: iteration.artifacts as RunArtifacts,
+          })),
+        }),
+      });
+      logger.info(`✅ Run manifest saved to ${runDir}`);
       return result;
     } catch (error) {
-      console.error(`Audit failed:`, error);
+      logger.error(`Audit failed:`, error);
       throw error;
+    } finally {
+      this.signal = null;
     }
   }
 
-  private async runSingleTest(url: string) {
+  private async runSingleTest(
+    url: string,
+    device: DeviceProfile,
+    throttling: ThrottlingSettings | null,
+    runDir: string,
+    subDir: string,
+    artifacts: Partial<RunArtifacts>
+  ) {
     let browser: Browser = null;
     let page: Page = null;
     let session: CDPSession = null;
+    let memory: MemoryRecording = null;
 
     try {
       // Launch Chrome with Puppeteer directly
+      this.emitPhase('launching', 'Launching the browser');
       browser = await puppeteer.launch({
         headless: this.options.headless,
         args: [
@@ -75,81 +152,353 @@ export class AuditRunner {
           "--no-sandbox",
           "--disable-dev-shm-usage",
         ],
-        defaultViewport: this.deviceConfigs[this.options.device].viewport
+        defaultViewport: {
+          ...device.viewport,
+          deviceScaleFactor: device.deviceScaleFactor,
+          isMobile: device.formFactor === 'mobile',
+          hasTouch: !!device.touch,
+        }
       });
+      this.throwIfCancelled();
       page = await browser.newPage();
+      if (device.userAgent) {
+        await page.setUserAgent(device.userAgent);
+      }
       session = await page.createCDPSession();
 
-      if (url.includes('localhost:5601')) {
-        await handleKibanaLogin(page, url);
+      const auth = getAuthConfig(url, this.options.auth);
+      if (auth) {
+        this.emitPhase('logging-in', 'Logging in');
+        await this.untilCancelled(applyAuth(browser, page, url, auth));
+      }
+
+      // Throttling starts after logging in, the profiling navigation and Lighthouse share it
+      if (throttling) {
+        await applyThrottling(session, throttling);
       }
 
+      const lhConfig = this.getLighthouseConfig(device, auth, throttling);
+      const flowSteps = this.getFlowSteps();
+      // Memory is recorded across the whole flow, started before any step's CPU profile
+      if (flowSteps.length > 0) {
+        if (this.options.coverage) {
+          logger.warn('Coverage is only recorded for a page load, not for user flows');
+        }
+        memory = this.options.memory ? await startMemoryRecording(session) : null;
+        const result = await this.runFlowSteps(page, session, url, flowSteps, lhConfig, runDir, subDir, artifacts);
+        if (memory) {
+          artifacts.memoryProfile = await this.saveRecording('Memory profile', () => memory.stop(), runDir, join(subDir, 'memory-profile.json'));
+        }
+        return result;
+      }
+
+      this.emitPhase('profiling', this.options.profile ? 'Profiling the page load' : 'Loading the page');
+      // Before the CPU profile starts, so its forced garbage collection isn't sampled
+      memory = this.options.memory ? await startMemoryRecording(session) : null;
       if (this.options.profile) {
         await session.send('Profiler.enable');
         await session.send('Profiler.start');
       }
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+      // Only the page load, Lighthouse's own coverage gathering would reset it afterwards
+      const coverage = this.options.coverage ? await startCoverageRecording(page) : null;
+      await this.untilCancelled(page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 }));
 
       // Stop profiling and save CPU profile
       if (session && this.options.profile) {
-        try {
-          const { profile } = await session.send('Profiler.stop');
-          const profilePath = join(outputDir, `cpu-profile.json`);
-          await writeFile(profilePath, JSON.stringify(profile, null, 2));
-          console.info(`✅ CPU profile saved to ${profilePath}`);
-        } catch (error) {
-          console.warn('Failed to save CPU profile:', error.message);
-        }
+        artifacts.cpuProfile = await this.stopProfiling(session, runDir, join(subDir, `cpu-profile.json`));
+      }
+      if (memory) {
+        artifacts.memoryProfile = await this.saveRecording('Memory profile', () => memory.stop(), runDir, join(subDir, 'memory-profile.json'));
+      }
+      if (coverage) {
+        artifacts.coverage = await this.saveRecording('Coverage', () => coverage.stop(), runDir, join(subDir, 'coverage.json'));
       }
 
-      const lhConfig: Config = {
-        extends: "lighthouse:default",
-        settings: {
-          output: 'json' as OutputMode,
-          onlyCategories: ['performance'],
-          formFactor: this.options.device,
-          screenEmulation: this.options.device === "mobile"
-            ? {
-              mobile: true,
-              width: 375,
-              height: 812,
-              deviceScaleFactor: 3,
-              disabled: false,
-            }
-            : {
-              mobile: false,
-              width: 1366,
-              height: 768,
-              deviceScaleFactor: 1,
-              disabled: false,
-            },
-        },
-      };
-
+      this.emitPhase('lighthouse', 'Running Lighthouse');
       const flow = await startFlow(page, { config: lhConfig });
-      await flow.navigate(url, { logLevel: 'error' });
-      const lighthouseResult = await flow.createFlowResult();
+      await this.untilCancelled(flow.navigate(url, { logLevel: 'error' }));
+      const lighthouseResult = await this.untilCancelled(flow.createFlowResult());
       const flowArtifacts = await flow.createArtifactsJson();
       const traceEvents = flowArtifacts.gatherSteps[0].artifacts?.Trace?.traceEvents;
 
       // Save trace events
       if (traceEvents) {
-        const tracePath = join(outputDir, `trace-events.json`);
-        await writeFile(tracePath, JSON.stringify(traceEvents, null, 2));
-        console.info(`✅ Trace events saved to ${tracePath}`);
+        this.emitPhase('saving', 'Saving the trace');
+        artifacts.traceEvents = await this.saveTraceEvents(traceEvents, runDir, join(subDir, `trace-events.json`));
       }
 
       return this.combineResults(lighthouseResult?.steps[0], url);
     } catch (error) {
-      console.error(`Test run failed:`, error);
+      if (this.signal?.aborted) {
+        throw error;
+      }
+      logger.error(`Test run failed:`, error);
       throw new Error(`Test run failed: ${error.message}`);
     } finally {
+      memory?.dispose();
       if (session) await session.detach().catch(() => { });
       if (page) await page.close().catch(() => { });
       if (browser) await browser.close().catch(() => { });
     }
   }
 
+  // Runs the scripted steps as a Lighthouse user flow, every navigation, timespan and
+  // snapshot becomes its own Lighthouse step with its own CPU profile and trace
+  private async runFlowSteps(
+    page: Page,
+    session: CDPSession,
+    url: string,
+    steps: FlowStep[],
+    lhConfig: Config,
+    runDir: string,
+    subDir: string,
+    artifacts: Partial<RunArtifacts>
+  ): Promise<PerformanceMetrics> {
+    // Interactions need a loaded page to act on
+    if (steps[0].type !== 'navigate') {
+      await this.untilCancelled(page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 }));
+    }
+    if (this.options.profile) {
+      await session.send('Profiler.enable');
+    }
+
+    const flow = await startFlow(page, { config: lhConfig });
+    const stepInfos: Array<{ name: string, mode: FlowStepMode, cpuProfile?: string }> = [];
+    let openTimespan: { name: string } | null = null;
+
+    const stepDir = () => join(subDir, 'steps', `${stepInfos.length + 1}`);
+    const startStepProfiling = async () => {
+      if (this.options.profile) await session.send('Profiler.start');
+    };
+    const stopStepProfiling = async () => this.options.profile
+      ? this.stopProfiling(session, runDir, join(stepDir(), 'cpu-profile.json'))
+      : undefined;
+
+    for (const step of steps) {
+      this.throwIfCancelled();
+      logger.info(`Flow step: ${step.type}${'name' in step && step.name ? ` (${step.name})` : ''}`);
+      switch (step.type) {
+        case 'navigate': {
+          const name = step.name || `Navigate to ${step.url || url}`;
+          this.emitPhase('lighthouse', `Running Lighthouse for flow step "${name}"`);
+          await startStepProfiling();
+          await this.untilCancelled(flow.navigate(step.url || url, { name, logLevel: 'error' }));
+          stepInfos.push({ name, mode: 'navigation', cpuProfile: await stopStepProfiling() });
+          break;
+        }
+        case 'startTimespan': {
+          if (openTimespan) {
+            throw new Error(`Timespan "${openTimespan.name}" is still open`);
+          }
+          openTimespan = { name: step.name || `Timespan ${stepInfos.length + 1}` };
+          this.emitPhase('lighthouse', `Running Lighthouse for flow step "${openTimespan.name}"`);
+          await startStepProfiling();
+          await this.untilCancelled(flow.startTimespan({ name: openTimespan.name, logLevel: 'error' }));
+          break;
+        }
+        case 'endTimespan': {
+          if (!openTimespan) {
+            throw new Error('endTimespan without a matching startTimespan');
+          }
+          await this.untilCancelled(flow.endTimespan());
+          stepInfos.push({ name: openTimespan.name, mode: 'timespan', cpuProfile: await stopStepProfiling() });
+          openTimespan = null;
+          break;
+        }
+        case 'snapshot': {
+          const name = step.name || `Snapshot ${stepInfos.length + 1}`;
+          this.emitPhase('lighthouse', `Running Lighthouse for flow step "${name}"`);
+          await startStepProfiling();
+          await this.untilCancelled(flow.snapshot({ name, logLevel: 'error' }));
+          stepInfos.push({ name, mode: 'snapshot', cpuProfile: await stopStepProfiling() });
+          break;
+        }
+        case 'click':
+          await this.untilCancelled(page.locator(step.selector).click());
+          break;
+        case 'type':
+          await this.untilCancelled(page.type(step.selector, step.text));
+          break;
+        case 'waitForSelector':
+          await this.untilCancelled(page.waitForSelector(step.selector, { timeout: step.timeout ?? 30000 }));
+          break;
+        case 'scroll':
+          if (step.selector && (step.x !== undefined || step.y !== undefined)) {
+            // Scroll inside a scrollable element
+            await this.untilCancelled(page.locator(step.selector).scroll({ scrollTop: step.y, scrollLeft: step.x }));
+          } else if (step.selector) {
+            const element = await this.untilCancelled(page.waitForSelector(step.selector));
+            await this.untilCancelled(element.scrollIntoView());
+            await element.dispose();
+          } else {
+            // Scroll by one viewport height unless told otherwise
+            await this.untilCancelled(page.evaluate((x, y) => window.scrollBy(x, y ?? window.innerHeight), step.x ?? 0, step.y));
+          }
+          break;
+        default:
+          throw new Error(`Unknown flow step: ${(step as FlowStep).type}`);
+      }
+    }
+
+    if (openTimespan) {
+      await this.untilCancelled(flow.endTimespan());
+      stepInfos.push({ name: openTimespan.name, mode: 'timespan', cpuProfile: await stopStepProfiling() });
+    }
+    if (stepInfos.length === 0) {
+      throw new Error('The flow has no navigate, timespan or snapshot step to measure');
+    }
+
+    const flowResult = await this.untilCancelled(flow.createFlowResult());
+    const flowArtifacts = await flow.createArtifactsJson();
+    this.emitPhase('saving', 'Saving the flow step traces');
+
+    const stepMetrics: FlowStepMetrics[] = [];
+    const stepArtifacts: StepArtifacts[] = [];
+    for (let i = 0; i < stepInfos.length; i++) {
+      const info = stepInfos[i];
+      const dir = join(subDir, 'steps', `${i + 1}`);
+      const traceEvents = flowArtifacts.gatherSteps[i]?.artifacts?.Trace?.traceEvents;
+      stepArtifacts.push({
+        name: info.name,
+        mode: info.mode,
+        cpuProfile: info.cpuProfile,
+        traceEvents: traceEvents
+          ? await this.saveTraceEvents(traceEvents, runDir, join(dir, 'trace-events.json'))
+          : undefined,
+      });
+      stepMetrics.push({
+        ...this.combineResults(flowResult.steps[i], url),
+        name: info.name,
+        mode: info.mode,
+      });
+    }
+
+    // The first navigation (or the first step) stands for the whole flow
+    const mainIndex = Math.max(0, stepInfos.findIndex(info => info.mode === 'navigation'));
+    artifacts.cpuProfile = stepArtifacts[mainIndex].cpuProfile;
+    artifacts.traceEvents = stepArtifacts[mainIndex].traceEvents;
+    artifacts.steps = stepArtifacts;
+
+    const { name, mode, ...mainMetrics } = stepMetrics[mainIndex];
+    // INP is only measured in timespans, report the worst one for the flow
+    const [worstInp] = stepMetrics
+      .map(step => step.coreWebVitals.inp)
+      .filter(Boolean)
+      .sort((a, b) => b.value - a.value);
+    return {
+      ...mainMetrics,
+      coreWebVitals: { ...mainMetrics.coreWebVitals, inp: mainMetrics.coreWebVitals.inp || worstInp },
+      steps: stepMetrics,
+    };
+  }
+
+  private emitPhase(phase: AuditPhase, message: string) {
+    const { iteration, runs } = this.progress;
+    const event: AuditPhaseEvent = {
+      phase,
+      message: runs > 1 && iteration > 0 ? `[${iteration}/${runs}] ${message}` : message,
+      iteration,
+      runs,
+    };
+    this.emit('phase', event);
+  }
+
+  private throwIfCancelled() {
+    if (this.signal?.aborted) {
+      throw new Error('Audit cancelled');
+    }
+  }
+
+  // Rejects as soon as the audit is cancelled, the caller's finally block then closes
+  // the browser which also ends the abandoned operation
+  private untilCancelled<T>(promise: Promise<T>): Promise<T> {
+    const signal = this.signal;
+    if (!signal) {
+      return promise;
+    }
+    this.throwIfCancelled();
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new Error('Audit cancelled'));
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  // Interactions are measured in a timespan after the page (or the scripted flow) has loaded
+  private getFlowSteps(): FlowStep[] {
+    const steps = this.options.steps || [];
+    const interactions = this.options.interactions || [];
+    if (interactions.length === 0) {
+      return steps;
+    }
+    return [
+      ...(steps.length > 0 ? steps : [{ type: 'navigate' } as FlowStep]),
+      { type: 'startTimespan', name: 'Interactions' },
+      ...interactions,
+      { type: 'endTimespan' },
+    ];
+  }
+
+  private getLighthouseConfig(device: DeviceProfile, auth: AuthConfig | null, throttling: ThrottlingSettings | null): Config {
+    return {
+      extends: "lighthouse:default",
+      settings: {
+        output: 'json' as OutputMode,
+        onlyCategories: ['performance'],
+        extraHeaders: auth?.headers,
+        ...(throttling && getLighthouseThrottling(throttling)),
+        formFactor: device.formFactor,
+        screenEmulation: {
+          mobile: device.formFactor === 'mobile',
+          ...device.viewport,
+          deviceScaleFactor: device.deviceScaleFactor,
+          disabled: false,
+        },
+        // Same user agent as the profiling navigation
+        emulatedUserAgent: device.userAgent || false,
+      },
+    };
+  }
+
+  private async stopProfiling(session: CDPSession, runDir: string, relativePath: string): Promise<string | undefined> {
+    try {
+      const { profile } = await session.send('Profiler.stop');
+      const profilePath = join(runDir, relativePath);
+      await mkdir(dirname(profilePath), { recursive: true });
+      await writeFile(profilePath, JSON.stringify(profile, null, 2));
+      logger.info(`✅ CPU profile saved to ${profilePath}`);
+      return relativePath;
+    } catch (error) {
+      logger.warn('Failed to save CPU profile:', error.message);
+      return undefined;
+    }
+  }
+
+  // A failed recording leaves the artifact out rather than failing the audit
+  private async saveRecording(name: string, stop: () => Promise<unknown>, runDir: string, relativePath: string): Promise<string | undefined> {
+    try {
+      const recording = await stop();
+      const recordingPath = join(runDir, relativePath);
+      await mkdir(dirname(recordingPath), { recursive: true });
+      await writeFile(recordingPath, JSON.stringify(recording));
+      logger.info(`✅ ${name} saved to ${recordingPath}`);
+      return relativePath;
+    } catch (error) {
+      logger.warn(`Failed to save ${name.toLowerCase()}:`, error.message);
+      return undefined;
+    }
+  }
+
+  private async saveTraceEvents(traceEvents: unknown[], runDir: string, relativePath: string): Promise<string> {
+    const tracePath = join(runDir, relativePath);
+    await mkdir(dirname(tracePath), { recursive: true });
+    await writeFile(tracePath, JSON.stringify(traceEvents, null, 2));
+    logger.info(`✅ Trace events saved to ${tracePath}`);
+    return relativePath;
+  }
+
   private combineResults(lighthouseResult: FlowResult.Step, url: string): PerformanceMetrics {
     if (!lighthouseResult || !lighthouseResult.lhr) {
       throw new Error("Invalid Lighthouse result");
@@ -176,27 +525,30 @@ export class AuditRunner {
     return {
       url,
       timestamp: new Date().toISOString(),
-      performanceScore: Math.round(
-        (lhr.categories.performance?.score || 0) * 100
-      ),
+      // Timespan and snapshot steps can have no performance score
+      performanceScore: lhr.categories.performance?.score === null
+        ? null
+        : Math.round((lhr.categories.performance?.score || 0) * 100),
       coreWebVitals: {
         fcp: getCoreWebVital("first-contentful-paint"),
         lcp: getCoreWebVital("largest-contentful-paint"),
         cls: getCoreWebVital("cumulative-layout-shift"),
         ttfb: getCoreWebVital("server-response-time"),
         tbt: getCoreWebVital("total-blocking-time"),
+        inp: getCoreWebVital("interaction-to-next-paint") || undefined,
       },
       longTasks: lhr.audits['long-tasks'],
     };
   }
 
-  private async saveResults(result: PerformanceMetrics): Promise<void> {
+  private async saveResults(result: PerformanceMetrics, runDir: string, subDir = ''): Promise<string> {
+    const reportPath = join(subDir, 'report.json');
     try {
-      await mkdir(outputDir, { recursive: true });
-      await writeFile(join(outputDir, 'report.json'), JSON.stringify(result, null, 2), 'utf-8');
-      console.info(`✅ Audit report saved to ${join(outputDir, 'report.json')}`);
+      await writeFile(join(runDir, reportPath), JSON.stringify(result, null, 2), 'utf-8');
+      logger.info(`✅ Audit report saved to ${join(runDir, reportPath)}`);
     } catch (error) {
-      console.error('Error saving audit results:', error);
+      logger.error('Error saving audit results:', error);
     }
+    return reportPath;
   }
 }
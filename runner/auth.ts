@@ -0,0 +1,134 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import type { Browser, CookieData, Page } from 'puppeteer';
+import type { AuthConfig, AuthCookie, FormLoginConfig } from './types';
+
+// Presets expand to a regular auth config for the audited URL
+export const AUTH_PRESETS: Record<string, (url: string) => AuthConfig> = {
+  kibana: (url: string) => {
+    const baseURL = new URL(url);
+    const kbnPath = baseURL.pathname.split('/')[1];
+    return {
+      form: {
+        loginUrl: kbnPath ? `${baseURL.origin}/${kbnPath}/login` : `${baseURL.origin}/login`,
+        usernameSelector: "[data-test-subj='loginUsername']",
+        passwordSelector: "[data-test-subj='loginPassword']",
+        submitSelector: "[data-test-subj='loginSubmit']",
+        usernameEnv: 'KIBANA_USERNAME',
+        passwordEnv: 'KIBANA_PASSWORD',
+        // Credentials of a local Kibana development cluster
+        fallbackCredentials: { username: 'elastic', password: 'changeme' },
+      },
+    };
+  },
+};
+
+// Local Kibana dev servers are logged into without any configuration
+export function getAuthConfig(url: string, auth?: AuthConfig): AuthConfig | null {
+  if (!auth) {
+    return url.includes('localhost:5601') ? AUTH_PRESETS.kibana(url) : null;
+  }
+  if (!auth.preset) {
+    return auth;
+  }
+  const preset = AUTH_PRESETS[auth.preset];
+  if (!preset) {
+    throw new Error(`Unknown auth preset: ${auth.preset}, available presets: ${Object.keys(AUTH_PRESETS).join(', ')}`);
+  }
+  // Explicit settings take precedence over the preset
+  const presetConfig = preset(url);
+  return {
+    ...presetConfig,
+    ...auth,
+    form: auth.form ? { ...presetConfig.form, ...auth.form } : presetConfig.form,
+  };
+}
+
+// Tokens and cookie values must not end up in saved run manifests
+export function redactAuth(auth?: AuthConfig): AuthConfig | undefined {
+  if (!auth) return auth;
+  return {
+    ...auth,
+    headers: auth.headers
+      ? Object.fromEntries(Object.keys(auth.headers).map(name => [name, '[redacted]']))
+      : undefined,
+    cookies: auth.cookies?.map(cookie => ({ ...cookie, value: '[redacted]' })),
+  };
+}
+
+export async function applyAuth(browser: Browser, page: Page, url: string, auth: AuthConfig): Promise<void> {
+  if (auth.headers && Object.keys(auth.headers).length > 0) {
+    await page.setExtraHTTPHeaders(auth.headers);
+  }
+
+  if (auth.storageStatePath) {
+    await loadStorageState(browser, page, url, auth.storageStatePath);
+  }
+
+  if (auth.cookies?.length > 0) {
+    await browser.setCookie(...auth.cookies.map(cookie => toCookieData(cookie, url)));
+  }
+
+  if (auth.form) {
+    await loginWithForm(page, auth.form);
+  }
+}
+
+async function loginWithForm(page: Page, form: Partial<FormLoginConfig>) {
+  const missing = ['loginUrl', 'usernameSelector', 'passwordSelector', 'submitSelector', 'usernameEnv', 'passwordEnv']
+    .filter(key => !form[key]);
+  if (missing.length > 0) {
+    throw new Error(`Form login is missing: ${missing.join(', ')}`);
+  }
+
+  const username = process.env[form.usernameEnv] ?? form.fallbackCredentials?.username;
+  const password = process.env[form.passwordEnv] ?? form.fallbackCredentials?.password;
+  if (username === undefined || password === undefined) {
+    throw new Error(`Login credentials missing, set the ${form.usernameEnv} and ${form.passwordEnv} environment variables`);
+  }
+
+  await page.goto(form.loginUrl, { waitUntil: 'load' });
+  await page.locator(form.usernameSelector).fill(username);
+  await page.locator(form.passwordSelector).fill(password);
+  if (form.waitForSelector) {
+    await page.locator(form.submitSelector).click();
+    await page.waitForSelector(form.waitForSelector);
+  } else {
+    await Promise.all([
+      page.waitForNavigation(),
+      page.locator(form.submitSelector).click(),
+    ]);
+  }
+}
+
+// Storage state uses the Playwright format: { cookies: [...], origins: [{ origin, localStorage: [...] }] }
+async function loadStorageState(browser: Browser, page: Page, url: string, storageStatePath: string) {
+  if (!existsSync(storageStatePath)) {
+    throw new Error(`Storage state file not found: ${storageStatePath}`);
+  }
+  const state = JSON.parse(await readFile(storageStatePath, 'utf-8'));
+
+  if (Array.isArray(state.cookies) && state.cookies.length > 0) {
+    await browser.setCookie(...state.cookies.map((cookie: AuthCookie) => toCookieData(cookie, url)));
+  }
+
+  const origins = Array.isArray(state.origins) ? state.origins : [];
+  if (origins.length > 0) {
+    await page.evaluateOnNewDocument((origins: Array<{ origin: string, localStorage?: Array<{ name: string, value: string }> }>) => {
+      const entry = origins.find(item => item.origin === location.origin);
+      for (const { name, value } of entry?.localStorage || []) {
+        localStorage.setItem(name, value);
+      }
+    }, origins);
+  }
+}
+
+function toCookieData(cookie: AuthCookie, url: string): CookieData {
+  return {
+    ...cookie,
+    domain: cookie.domain || new URL(url).hostname,
+    path: cookie.path || '/',
+    // Session cookies are stored with an expiry of -1
+    expires: cookie.expires > 0 ? cookie.expires : undefined,
+  } as CookieData;
+}
@@ -0,0 +1,89 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import type { AggregatedFunction, BudgetAssertion, BudgetResult, CPUProfile, PerformanceBudget, PerformanceMetrics, SourceMapConfig } from './types';
+import CPUProfileAnalyzer from './analyzer.js';
+import { getMetricValue } from './compare.js';
+
+const METRIC_LABELS: Record<keyof PerformanceBudget['metrics'], string> = {
+  performanceScore: 'Performance Score',
+  fcp: 'First Contentful Paint (FCP)',
+  lcp: 'Largest Contentful Paint (LCP)',
+  cls: 'Cumulative Layout Shift (CLS)',
+  ttfb: 'Time to First Byte (TTFB)',
+  tbt: 'Total Blocking Time (TBT)',
+  inp: 'Interaction to Next Paint (INP)',
+};
+
+export async function loadBudget(budgetPath: string): Promise<PerformanceBudget> {
+  if (!existsSync(budgetPath)) {
+    throw new Error(`Budget file not found: ${budgetPath}`);
+  }
+  return JSON.parse(await readFile(budgetPath, 'utf-8'));
+}
+
+export async function evaluateBudget(
+  budget: PerformanceBudget,
+  report: PerformanceMetrics,
+  cpuProfile?: CPUProfile,
+  sourceMaps?: SourceMapConfig
+): Promise<BudgetResult> {
+  const assertions: BudgetAssertion[] = [];
+
+  const assert = (name: string, actual: number | null, limit: number, comparison: 'max' | 'min', unit = '') => {
+    const passed = actual !== null && (comparison === 'max' ? actual <= limit : actual >= limit);
+    assertions.push({ name, actual, limit, comparison, unit, passed });
+  };
+
+  for (const [metric, limit] of Object.entries(budget.metrics || {})) {
+    if (typeof limit !== 'number') continue;
+    const isScore = metric === 'performanceScore';
+    const unit = isScore || metric === 'cls' ? '' : 'ms';
+    assert(METRIC_LABELS[metric] || metric, getMetricValue(report, metric), limit, isScore ? 'min' : 'max', unit);
+  }
+
+  if (budget.longTasks?.maxCount !== undefined) {
+    assert('Long Tasks', getMetricValue(report, 'longTaskCount'), budget.longTasks.maxCount, 'max');
+  }
+  if (budget.longTasks?.maxTotalDuration !== undefined) {
+    assert('Long Task Duration', getMetricValue(report, 'longTaskDuration'), budget.longTasks.maxTotalDuration, 'max', 'ms');
+  }
+
+  if (budget.cpu?.length > 0) {
+    const functions = cpuProfile ? await aggregateProfileFunctions(cpuProfile, sourceMaps) : null;
+    for (const cpuBudget of budget.cpu) {
+      const target = cpuBudget.package ? `package ${cpuBudget.package}` : cpuBudget.file;
+      // Summed in µs and rounded once, many functions under half a millisecond add up
+      const actual = functions
+        ? Math.round(functions
+          .filter(func => matchesCPUBudget(func, cpuBudget))
+          .reduce((sum, func) => sum + func.exactSelfTime, 0) / 1000)
+        : null;
+      assert(`CPU self time of ${target}`, actual, cpuBudget.maxSelfTime, 'max', 'ms');
+    }
+  }
+
+  return {
+    passed: assertions.every(assertion => assertion.passed),
+    assertions,
+  };
+}
+
+async function aggregateProfileFunctions(cpuProfile: CPUProfile, sourceMaps?: SourceMapConfig): Promise<AggregatedFunction[]> {
+  const analyzer = new CPUProfileAnalyzer(sourceMaps);
+  try {
+    await analyzer.analyzeCPUProfileData(cpuProfile);
+    return await analyzer.aggregateFunctions(Infinity);
+  } finally {
+    await analyzer.sourceMapResolver.destroy();
+  }
+}
+
+// Original files are matched on the source-mapped path, falling back to the script URL
+function matchesCPUBudget(func: AggregatedFunction, cpuBudget: PerformanceBudget['cpu'][number]): boolean {
+  const path = func.isSourceMapped ? (func.fullOriginalPath || func.originalFile) : func.url;
+  if (!path) return false;
+  if (cpuBudget.package) {
+    return path.includes(`node_modules/${cpuBudget.package}/`);
+  }
+  return !!cpuBudget.file && path.includes(cpuBudget.file);
+}
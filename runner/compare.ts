@@ -0,0 +1,110 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import type { PerformanceMetrics, MetricDelta, RunComparison, ChangeVerdict } from './types';
+import { getArtifactPath, loadManifest } from './runs.js';
+
+interface MetricDefinition {
+  metric: string;
+  label: string;
+  unit: string;
+  higherIsBetter?: boolean;
+  // Changes within either threshold are treated as run-to-run variance
+  noiseAbsolute: number;
+  noiseRelative: number;
+  getValue: (report: PerformanceMetrics) => number | null;
+}
+
+const getLongTaskItems = (report: PerformanceMetrics): any[] | null => {
+  const items = (report.longTasks?.details as any)?.items;
+  return Array.isArray(items) ? items : null;
+};
+
+// Multi-run audits are compared on their medians rather than the representative run
+const getVital = (key: keyof PerformanceMetrics['coreWebVitals']) =>
+  (report: PerformanceMetrics) =>
+    report.aggregate?.coreWebVitals[key]?.median ?? report.coreWebVitals?.[key]?.value ?? null;
+
+const METRICS: MetricDefinition[] = [
+  {
+    metric: 'performanceScore', label: 'Performance Score', unit: '',
+    higherIsBetter: true, noiseAbsolute: 2, noiseRelative: 0,
+    getValue: report => report.aggregate?.performanceScore?.median ?? report.performanceScore ?? null,
+  },
+  { metric: 'fcp', label: 'First Contentful Paint (FCP)', unit: 'ms', noiseAbsolute: 50, noiseRelative: 0.05, getValue: getVital('fcp') },
+  { metric: 'lcp', label: 'Largest Contentful Paint (LCP)', unit: 'ms', noiseAbsolute: 50, noiseRelative: 0.05, getValue: getVital('lcp') },
+  { metric: 'cls', label: 'Cumulative Layout Shift (CLS)', unit: '', noiseAbsolute: 0.01, noiseRelative: 0, getValue: getVital('cls') },
+  { metric: 'ttfb', label: 'Time to First Byte (TTFB)', unit: 'ms', noiseAbsolute: 30, noiseRelative: 0.1, getValue: getVital('ttfb') },
+  { metric: 'tbt', label: 'Total Blocking Time (TBT)', unit: 'ms', noiseAbsolute: 30, noiseRelative: 0.1, getValue: getVital('tbt') },
+  { metric: 'inp', label: 'Interaction to Next Paint (INP)', unit: 'ms', noiseAbsolute: 20, noiseRelative: 0.1, getValue: getVital('inp') },
+  {
+    metric: 'longTaskCount', label: 'Long Tasks', unit: '', noiseAbsolute: 1, noiseRelative: 0,
+    getValue: report => getLongTaskItems(report)?.length ?? null,
+  },
+  {
+    metric: 'longTaskDuration', label: 'Long Task Duration', unit: 'ms', noiseAbsolute: 30, noiseRelative: 0.1,
+    getValue: report => {
+      const items = getLongTaskItems(report);
+      return items ? Math.round(items.reduce((sum, task) => sum + (task.duration || 0), 0)) : null;
+    },
+  },
+];
+
+export function getMetricValue(report: PerformanceMetrics, metric: string): number | null {
+  const definition = METRICS.find(definition => definition.metric === metric);
+  return definition ? definition.getValue(report) : null;
+}
+
+// Accepts either a run ID or a path to a saved report.json
+export async function loadReport(reference: string): Promise<PerformanceMetrics> {
+  let reportPath = reference;
+  if (!existsSync(reference)) {
+    const manifest = await loadManifest(reference);
+    reportPath = getArtifactPath(manifest, 'report');
+  }
+  if (!reportPath || !existsSync(reportPath)) {
+    throw new Error(`Audit report not found for ${reference}`);
+  }
+  return JSON.parse(await readFile(reportPath, 'utf-8'));
+}
+
+export function compareReports(baseline: PerformanceMetrics, current: PerformanceMetrics): RunComparison {
+  const metrics: MetricDelta[] = [];
+
+  for (const definition of METRICS) {
+    const baselineValue = definition.getValue(baseline);
+    const currentValue = definition.getValue(current);
+    if (baselineValue === null || currentValue === null) continue;
+
+    const delta = currentValue - baselineValue;
+    metrics.push({
+      metric: definition.metric,
+      label: definition.label,
+      unit: definition.unit,
+      baseline: baselineValue,
+      current: currentValue,
+      delta: Math.round(delta * 1000) / 1000,
+      deltaPercent: baselineValue !== 0 ? ((delta / baselineValue) * 100).toFixed(1) : null,
+      verdict: getVerdict(definition, baselineValue, delta),
+    });
+  }
+
+  return {
+    baseline: { runId: baseline.runId, url: baseline.url, timestamp: baseline.timestamp },
+    current: { runId: current.runId, url: current.url, timestamp: current.timestamp },
+    metrics,
+    summary: {
+      improvements: metrics.filter(m => m.verdict === 'improvement').length,
+      regressions: metrics.filter(m => m.verdict === 'regression').length,
+      noise: metrics.filter(m => m.verdict === 'noise').length,
+    },
+  };
+}
+
+function getVerdict(definition: MetricDefinition, baselineValue: number, delta: number): ChangeVerdict {
+  const threshold = Math.max(definition.noiseAbsolute, Math.abs(baselineValue) * definition.noiseRelative);
+  if (Math.abs(delta) <= threshold) {
+    return 'noise';
+  }
+  const improved = definition.higherIsBetter ? delta > 0 : delta < 0;
+  return improved ? 'improvement' : 'regression';
+}
@@ -0,0 +1,159 @@
+import type { Page } from 'puppeteer';
+import type { CoverageAnalysis, CoverageEntry, CoverageGroup, CoverageUsage } from './types';
+import type { SourceMapResolver } from './resolver.js';
+import { getPackageName, getSourceDirectory } from './attribution.js';
+import { logger } from './logger.js';
+
+// Directories are reported two levels deep, src/charts rather than src
+const DIRECTORY_DEPTH = 2;
+const MAX_FILES = 15;
+const MAX_GROUPS = 10;
+
+type Range = CoverageEntry['ranges'][number];
+
+export interface CoverageRecording {
+  stop(): Promise<CoverageEntry[]>;
+}
+
+// Precise block coverage of the scripts and rule usage of the stylesheets, kept across
+// redirects so the entries cover everything the page loaded
+export async function startCoverageRecording(page: Page): Promise<CoverageRecording> {
+  await Promise.all([
+    page.coverage.startJSCoverage({ resetOnNavigation: false, useBlockCoverage: true }),
+    page.coverage.startCSSCoverage({ resetOnNavigation: false }),
+  ]);
+  return {
+    async stop() {
+      const [scripts, stylesheets] = await Promise.all([
+        page.coverage.stopJSCoverage(),
+        page.coverage.stopCSSCoverage(),
+      ]);
+      return [
+        ...scripts.map(({ url, text, ranges }): CoverageEntry => ({ url, type: 'js', text, ranges })),
+        ...stylesheets.map(({ url, text, ranges }): CoverageEntry => ({ url, type: 'css', text, ranges })),
+      ];
+    },
+  };
+}
+
+// Unused bytes by script and stylesheet, and for source-mapped scripts by original
+// file, directory and package. Bytes are counted in characters like DevTools does
+export async function analyzeCoverage(entries: CoverageEntry[], resolver: SourceMapResolver): Promise<CoverageAnalysis> {
+  const files = new Map<string, { type: 'js' | 'css'; total: number; unused: number; isSourceMapped: boolean }>();
+  const sources = new Map<string, { total: number; unused: number }>();
+
+  for (const entry of entries) {
+    const ranges = [...entry.ranges].sort((a, b) => a.start - b.start);
+    const total = entry.text.length;
+    const unused = total - createUsedCounter(ranges)(0, total);
+    const key = `${entry.type}|${entry.url}`;
+    const file = files.get(key) || { type: entry.type, total: 0, unused: 0, isSourceMapped: false };
+    file.total += total;
+    file.unused += unused;
+    files.set(key, file);
+
+    if (entry.type === 'js' && entry.url) {
+      file.isSourceMapped = await attributeToSources(entry, ranges, resolver, sources) || file.isSourceMapped;
+    }
+  }
+
+  const directories = new Map<string, { total: number; unused: number }>();
+  const packages = new Map<string, { total: number; unused: number }>();
+  const add = (groups: Map<string, { total: number; unused: number }>, name: string, usage: { total: number; unused: number }) => {
+    const group = groups.get(name) || { total: 0, unused: 0 };
+    group.total += usage.total;
+    group.unused += usage.unused;
+    groups.set(name, group);
+  };
+  sources.forEach((usage, source) => {
+    const packageName = getPackageName(source);
+    // Dependencies are listed by package rather than under node_modules
+    if (packageName) {
+      add(packages, packageName, usage);
+    } else {
+      add(directories, getSourceDirectory(source, DIRECTORY_DEPTH), usage);
+    }
+  });
+
+  const fileUsages = Array.from(files.entries()).map(([key, file]) => ({ url: key.slice(key.indexOf('|') + 1), ...file }));
+  const sumUsage = (type?: 'js' | 'css') => fileUsages
+    .filter(file => !type || file.type === type)
+    .reduce((sum, file) => ({ total: sum.total + file.total, unused: sum.unused + file.unused }), { total: 0, unused: 0 });
+  logger.debug(`Analyzed the coverage of ${files.size} files, ${sources.size} original sources`);
+
+  return {
+    total: toUsage(sumUsage()),
+    js: toUsage(sumUsage('js')),
+    css: toUsage(sumUsage('css')),
+    files: fileUsages
+      .sort((a, b) => b.unused - a.unused)
+      .slice(0, MAX_FILES)
+      .map(file => ({ name: file.url || '(inline)', type: file.type, isSourceMapped: file.isSourceMapped, ...toUsage(file) })),
+    sources: toGroups(sources, MAX_FILES),
+    directories: toGroups(directories, MAX_GROUPS),
+    packages: toGroups(packages, MAX_GROUPS),
+  };
+}
+
+// Every mapping covers the generated code up to the next mapping, so its
+// original source is charged with the used and unused bytes of that span
+async function attributeToSources(
+  entry: CoverageEntry,
+  ranges: Range[],
+  resolver: SourceMapResolver,
+  sources: Map<string, { total: number; unused: number }>
+): Promise<boolean> {
+  const lineOffsets = [0];
+  for (let index = entry.text.indexOf('\n'); index >= 0; index = entry.text.indexOf('\n', index + 1)) {
+    lineOffsets.push(index + 1);
+  }
+
+  const countUsed = createUsedCounter(ranges);
+  let previous: { offset: number; source: string | null } | null = null;
+  const charge = (end: number) => {
+    if (!previous?.source || end <= previous.offset) return;
+    const used = countUsed(previous.offset, end);
+    const usage = sources.get(previous.source) || { total: 0, unused: 0 };
+    usage.total += end - previous.offset;
+    usage.unused += end - previous.offset - used;
+    sources.set(previous.source, usage);
+  };
+
+  const isSourceMapped = await resolver.eachMapping(entry.url, (line, column, source) => {
+    const offset = (lineOffsets[line - 1] ?? entry.text.length) + column;
+    charge(Math.min(offset, entry.text.length));
+    previous = { offset, source };
+  });
+  charge(entry.text.length);
+  return isSourceMapped;
+}
+
+// Counts the used characters between start and end, the ranges are sorted and disjoint
+// and the spans are queried in order so each call skips the ranges before it
+function createUsedCounter(ranges: Range[]): (start: number, end: number) => number {
+  let first = 0;
+  return (start, end) => {
+    while (first < ranges.length && ranges[first].end <= start) first++;
+    let used = 0;
+    for (let index = first; index < ranges.length && ranges[index].start < end; index++) {
+      used += Math.min(end, ranges[index].end) - Math.max(start, ranges[index].start);
+    }
+    return used;
+  };
+}
+
+function toUsage({ total, unused }: { total: number; unused: number }): CoverageUsage {
+  return {
+    total_bytes: total,
+    unused_bytes: unused,
+    unused_percentage: total > 0 ? ((unused / total) * 100).toFixed(1) : '0.0',
+  };
+}
+
+// Largest unused size first, that's where removing code saves the most
+function toGroups(groups: Map<string, { total: number; unused: number }>, limit: number): CoverageGroup[] {
+  return Array.from(groups.entries())
+    .sort((a, b) => b[1].unused - a[1].unused)
+    .slice(0, limit)
+    .map(([name, usage]) => ({ name, ...toUsage(usage) }));
+}
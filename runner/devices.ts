@@ -0,0 +1,77 @@
+import { readFileSync, existsSync } from 'node:fs';
+import type { DeviceProfile } from './types';
+
+const DESKTOP_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36';
+const MOBILE_USER_AGENT = 'Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Mobile Safari/537.36';
+
+export const DEVICE_PROFILES: Record<string, DeviceProfile> = {
+  desktop: {
+    description: 'Laptop screen',
+    formFactor: 'desktop',
+    viewport: { width: 1366, height: 768 },
+    deviceScaleFactor: 1,
+    userAgent: DESKTOP_USER_AGENT,
+  },
+  mobile: {
+    description: 'Modern phone',
+    formFactor: 'mobile',
+    viewport: { width: 375, height: 812 },
+    deviceScaleFactor: 3,
+    userAgent: MOBILE_USER_AGENT,
+    touch: true,
+  },
+  tablet: {
+    description: 'Android tablet in portrait',
+    formFactor: 'mobile',
+    viewport: { width: 800, height: 1280 },
+    deviceScaleFactor: 2,
+    userAgent: 'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36',
+    touch: true,
+  },
+  'low-end-android': {
+    description: 'Budget Android phone on a slow 4G connection',
+    formFactor: 'mobile',
+    viewport: { width: 360, height: 640 },
+    deviceScaleFactor: 2,
+    userAgent: 'Mozilla/5.0 (Linux; Android 10; Nokia 2.4) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Mobile Safari/537.36',
+    touch: true,
+    throttling: { preset: 'custom', latency: 562.5, downloadThroughput: 1474.56, uploadThroughput: 675, cpuSlowdown: 6 },
+  },
+  'desktop-4k': {
+    description: '4K monitor',
+    formFactor: 'desktop',
+    viewport: { width: 1920, height: 1080 },
+    deviceScaleFactor: 2,
+    userAgent: DESKTOP_USER_AGENT,
+  },
+};
+
+// User-defined profiles can be shared between runs through a JSON file
+// named by WEB_PERF_DEVICES, entries passed with an audit take precedence
+export function loadDeviceRegistry(customDevices: Record<string, DeviceProfile> = {}): Record<string, DeviceProfile> {
+  const registryPath = process.env.WEB_PERF_DEVICES;
+  let fileDevices: Record<string, DeviceProfile> = {};
+  if (registryPath) {
+    if (!existsSync(registryPath)) {
+      throw new Error(`Device registry not found: ${registryPath}`);
+    }
+    fileDevices = JSON.parse(readFileSync(registryPath, 'utf-8'));
+  }
+  return { ...DEVICE_PROFILES, ...fileDevices, ...customDevices };
+}
+
+export function getDeviceProfile(device: string, customDevices?: Record<string, DeviceProfile>): DeviceProfile {
+  const registry = loadDeviceRegistry(customDevices);
+  const profile = registry[device];
+  if (!profile) {
+    throw new Error(`Unknown device: ${device}, available devices are ${Object.keys(registry).join(', ')}`);
+  }
+  if (!profile.viewport?.width || !profile.viewport?.height) {
+    throw new Error(`Device ${device} needs a viewport width and height`);
+  }
+  return {
+    ...profile,
+    formFactor: profile.formFactor || 'desktop',
+    deviceScaleFactor: profile.deviceScaleFactor || 1,
+  };
+}
@@ -0,0 +1,122 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import type { AggregatedFunction, CPUProfile, CPUProfileDiff, FunctionDiff, SourceMapConfig } from './types';
+import CPUProfileAnalyzer from './analyzer.js';
+import { SourceMapResolver } from './resolver.js';
+import { getArtifactPath, loadManifest } from './runs.js';
+
+// Changes smaller than this are sampling jitter
+const MIN_DELTA_MS = 1;
+
+// Accepts either a run ID or a path to a saved CPU profile
+export async function loadProfile(reference: string): Promise<CPUProfile> {
+  let profilePath = reference;
+  if (!existsSync(reference)) {
+    const manifest = await loadManifest(reference);
+    profilePath = getArtifactPath(manifest, 'cpuProfile');
+  }
+  if (!profilePath || !existsSync(profilePath)) {
+    throw new Error(`CPU profile not found for ${reference}`);
+  }
+  return JSON.parse(await readFile(profilePath, 'utf-8'));
+}
+
+// Bundle names carry content hashes that change on every build, the
+// original file and function name are what stays stable between builds
+export function getFunctionIdentity(func: AggregatedFunction): string {
+  if (func.isSourceMapped) {
+    const file = func.fullOriginalPath || func.originalFile;
+    const name = func.originalName && !func.originalName.startsWith('(anonymous')
+      ? func.originalName
+      : `(anonymous):${func.originalLine}`;
+    return `${file}#${name}`;
+  }
+  return `${normalizeUrl(func.url)}#${func.functionName}`;
+}
+
+function normalizeUrl(url: string): string {
+  return url
+    .replace(/[?#].*$/, '')
+    .replace(/[.-][a-f0-9]{8,}(?=\.)/g, '');
+}
+
+export async function diffProfiles(
+  baselineProfile: CPUProfile,
+  currentProfile: CPUProfile,
+  sourceMaps?: SourceMapConfig
+): Promise<CPUProfileDiff> {
+  // Share one resolver so source maps are only fetched once for both profiles
+  const sourceMapResolver = new SourceMapResolver(sourceMaps);
+  const analyze = async (profile: CPUProfile) => {
+    const analyzer = new CPUProfileAnalyzer();
+    analyzer.sourceMapResolver = sourceMapResolver;
+    await analyzer.analyzeCPUProfileData(profile);
+    const report = analyzer.generate();
+    return {
+      totalTime: report.executive_summary.total_execution_time_ms,
+      // Every function, a limit would report functions near its edge as added or removed
+      functions: groupByIdentity(await analyzer.aggregateFunctions(Infinity)),
+    };
+  };
+
+  let baseline: Awaited<ReturnType<typeof analyze>>;
+  let current: Awaited<ReturnType<typeof analyze>>;
+  try {
+    baseline = await analyze(baselineProfile);
+    current = await analyze(currentProfile);
+  } finally {
+    await sourceMapResolver.destroy();
+  }
+
+  const diffs: FunctionDiff[] = [];
+  const identities = new Set([...baseline.functions.keys(), ...current.functions.keys()]);
+  for (const identity of identities) {
+    const before = baseline.functions.get(identity);
+    const after = current.functions.get(identity);
+    const func = after || before;
+    const selfTimeDelta = (after?.selfTime || 0) - (before?.selfTime || 0);
+    const totalTimeDelta = (after?.totalTime || 0) - (before?.totalTime || 0);
+    diffs.push({
+      identity,
+      function: func.originalName || func.functionName,
+      file: func.isSourceMapped ? (func.fullOriginalPath || func.originalFile) : func.url,
+      isSourceMapped: !!func.isSourceMapped,
+      baseline: before ? { selfTime: before.selfTime, totalTime: before.totalTime } : null,
+      current: after ? { selfTime: after.selfTime, totalTime: after.totalTime } : null,
+      selfTimeDelta,
+      totalTimeDelta,
+    });
+  }
+
+  const bySelfDelta = (a: FunctionDiff, b: FunctionDiff) => Math.abs(b.selfTimeDelta) - Math.abs(a.selfTimeDelta);
+  const isSignificant = (diff: FunctionDiff) =>
+    Math.abs(diff.selfTimeDelta) >= MIN_DELTA_MS || Math.abs(diff.totalTimeDelta) >= MIN_DELTA_MS;
+  const matched = diffs.filter(diff => diff.baseline && diff.current && isSignificant(diff));
+
+  return {
+    baseline: { total_execution_time_ms: baseline.totalTime, function_count: baseline.functions.size },
+    current: { total_execution_time_ms: current.totalTime, function_count: current.functions.size },
+    gained: matched.filter(diff => diff.selfTimeDelta > 0 || (diff.selfTimeDelta === 0 && diff.totalTimeDelta > 0)).sort(bySelfDelta),
+    lost: matched.filter(diff => diff.selfTimeDelta < 0 || (diff.selfTimeDelta === 0 && diff.totalTimeDelta < 0)).sort(bySelfDelta),
+    added: diffs.filter(diff => !diff.baseline && isSignificant(diff)).sort(bySelfDelta),
+    removed: diffs.filter(diff => !diff.current && isSignificant(diff)).sort(bySelfDelta),
+  };
+}
+
+// Several minified frames can map to the same original function (e.g. duplicated
+// or inlined code in different chunks), fold them into one entry
+function groupByIdentity(functions: AggregatedFunction[]): Map<string, AggregatedFunction> {
+  const grouped = new Map<string, AggregatedFunction>();
+  for (const func of functions) {
+    const identity = getFunctionIdentity(func);
+    const existing = grouped.get(identity);
+    if (existing) {
+      existing.selfTime += func.selfTime;
+      existing.totalTime += func.totalTime;
+      existing.hitCount += func.hitCount;
+    } else {
+      grouped.set(identity, { ...func });
+    }
+  }
+  return grouped;
+}
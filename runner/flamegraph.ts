@@ -0,0 +1,223 @@
+import { createHash } from 'node:crypto';
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, dirname, join } from 'node:path';
+import type { FlameFrame, FlameProfile, FlamegraphFormat, SourceMapConfig } from './types';
+import CPUProfileAnalyzer from './analyzer.js';
+import { logger } from './logger.js';
+
+export const FLAMEGRAPH_FORMATS: FlamegraphFormat[] = ['speedscope', 'folded', 'svg'];
+
+const FILE_EXTENSIONS: Record<FlamegraphFormat, string> = {
+  speedscope: '.speedscope.json',
+  folded: '.folded',
+  svg: '.flamegraph.svg',
+};
+
+const MIME_TYPES: Record<FlamegraphFormat, string> = {
+  speedscope: 'application/json',
+  folded: 'text/plain',
+  svg: 'image/svg+xml',
+};
+
+export function getFlamegraphMimeType(format: FlamegraphFormat): string {
+  return MIME_TYPES[format];
+}
+
+// Where a flamegraph is saved by default, next to its CPU profile. One symbolicated with
+// a source map config is keyed by that config, so it never replaces the plain rendering
+export function getFlamegraphPath(cpuProfilePath: string, format: FlamegraphFormat, sourceMaps?: SourceMapConfig): string {
+  const key = sourceMaps ? `.${createHash('sha1').update(JSON.stringify(sourceMaps)).digest('hex').slice(0, 8)}` : '';
+  return join(dirname(cpuProfilePath), `${basename(cpuProfilePath, '.json')}${key}${FILE_EXTENSIONS[format]}`);
+}
+
+// Analyze a CPU profile and render its flamegraph without writing it anywhere
+export async function renderFlamegraph(
+  cpuProfilePath: string,
+  format: FlamegraphFormat,
+  sourceMaps?: SourceMapConfig
+): Promise<{ content: string; format: FlamegraphFormat; frames: number; samples: number }> {
+  if (!FLAMEGRAPH_FORMATS.includes(format)) {
+    throw new Error(`Unknown flamegraph format: ${format}, use one of ${FLAMEGRAPH_FORMATS.join(', ')}`);
+  }
+
+  const analyzer = new CPUProfileAnalyzer(sourceMaps);
+  let profile: FlameProfile;
+  try {
+    await analyzer.analyzeCPUProfileData(JSON.parse(await readFile(cpuProfilePath, 'utf-8')));
+    profile = await analyzer.buildFlameProfile(basename(cpuProfilePath, '.json'));
+  } finally {
+    await analyzer.sourceMapResolver.destroy();
+  }
+
+  const content = format === 'speedscope'
+    ? JSON.stringify(toSpeedscope(profile))
+    : format === 'folded'
+      ? toFoldedStacks(profile)
+      : toFlamegraphSvg(profile);
+  return { content, format, frames: profile.frames.length, samples: profile.samples.length };
+}
+
+// Analyze a CPU profile and write its flamegraph, next to the profile unless an output path is given
+export async function exportFlamegraph(
+  cpuProfilePath: string,
+  format: FlamegraphFormat,
+  outputPath?: string,
+  sourceMaps?: SourceMapConfig
+): Promise<{ path: string; content: string; format: FlamegraphFormat; frames: number; samples: number }> {
+  const result = await renderFlamegraph(cpuProfilePath, format, sourceMaps);
+  const path = outputPath || getFlamegraphPath(cpuProfilePath, format, sourceMaps);
+  await writeFile(path, result.content, 'utf-8');
+  logger.info(`✅ Flamegraph saved to ${path}`);
+  return { path, ...result };
+}
+
+// https://github.com/jlfwong/speedscope/wiki/Importing-from-custom-sources
+export function toSpeedscope(profile: FlameProfile) {
+  return {
+    $schema: 'https://www.speedscope.app/file-format-schema.json',
+    name: profile.name,
+    exporter: 'web-perf-mcp',
+    activeProfileIndex: 0,
+    shared: {
+      frames: profile.frames.map(frame => ({
+        name: frame.name,
+        file: frame.file || undefined,
+        line: frame.line,
+        col: frame.column,
+      })),
+    },
+    profiles: [
+      {
+        type: 'sampled',
+        name: profile.name,
+        unit: 'microseconds',
+        startValue: 0,
+        endValue: profile.weights.reduce((sum, weight) => sum + weight, 0),
+        samples: profile.samples,
+        weights: profile.weights,
+      },
+    ],
+  };
+}
+
+// One line per unique stack, frames separated by semicolons followed by the time in µs
+export function toFoldedStacks(profile: FlameProfile): string {
+  const labels = profile.frames.map(frame => getFrameLabel(frame).replace(/;/g, ':'));
+  const weightByStack = new Map<string, number>();
+  profile.samples.forEach((stack, index) => {
+    const key = stack.map(frameIndex => labels[frameIndex]).join(';');
+    weightByStack.set(key, (weightByStack.get(key) || 0) + profile.weights[index]);
+  });
+  return Array.from(weightByStack.entries())
+    .map(([stack, weight]) => `${stack} ${Math.round(weight)}`)
+    .join('\n') + '\n';
+}
+
+interface FlameNode {
+  frame: number;
+  value: number;
+  children: Map<number, FlameNode>;
+}
+
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 11;
+const CHAR_WIDTH = 6.5;
+const MIN_RECT_WIDTH = 0.3;
+
+// Classic bottom-up flamegraph, the width of a frame is its total time
+export function toFlamegraphSvg(profile: FlameProfile, width = 1200): string {
+  const root: FlameNode = { frame: -1, value: 0, children: new Map() };
+  let maxDepth = 0;
+  profile.samples.forEach((stack, index) => {
+    const weight = profile.weights[index];
+    root.value += weight;
+    let node = root;
+    for (const frame of stack) {
+      let child = node.children.get(frame);
+      if (!child) {
+        child = { frame, value: 0, children: new Map() };
+        node.children.set(frame, child);
+      }
+      child.value += weight;
+      node = child;
+    }
+    maxDepth = Math.max(maxDepth, stack.length);
+  });
+
+  const padding = 10;
+  const titleHeight = 30;
+  const chartWidth = width - padding * 2;
+  const height = titleHeight + (maxDepth + 1) * ROW_HEIGHT + padding;
+  const scale = root.value > 0 ? chartWidth / root.value : 0;
+  const rects: string[] = [];
+
+  const drawNode = (node: FlameNode, x: number, depth: number) => {
+    const rectWidth = node.value * scale;
+    if (rectWidth < MIN_RECT_WIDTH) return;
+    const y = height - padding - (depth + 1) * ROW_HEIGHT;
+    const frame = node.frame >= 0 ? profile.frames[node.frame] : null;
+    const label = frame ? getFrameLabel(frame) : 'all';
+    const ms = (node.value / 1000).toFixed(1);
+    const percentage = ((node.value / root.value) * 100).toFixed(2);
+    const maxChars = Math.floor((rectWidth - 6) / CHAR_WIDTH);
+    const text = maxChars < 3
+      ? ''
+      : label.length > maxChars ? `${label.slice(0, maxChars - 2)}..` : label;
+
+    rects.push(
+      `<g><title>${escapeXml(`${label}: ${ms}ms (${percentage}%)`)}</title>` +
+      `<rect x="${(padding + x).toFixed(2)}" y="${y}" width="${rectWidth.toFixed(2)}" height="${ROW_HEIGHT - 1}" fill="${getFrameColor(frame)}" rx="2"/>` +
+      (text ? `<text x="${(padding + x + 3).toFixed(2)}" y="${y + ROW_HEIGHT - 4}">${escapeXml(text)}</text>` : '') +
+      `</g>`
+    );
+
+    let childX = x;
+    for (const child of Array.from(node.children.values()).sort((a, b) => b.value - a.value)) {
+      drawNode(child, childX, depth + 1);
+      childX += child.value * scale;
+    }
+  };
+  drawNode(root, 0, 0);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<style>text { font-family: Verdana, sans-serif; font-size: ${FONT_SIZE}px; fill: #000; pointer-events: none; } rect:hover { stroke: #000; stroke-width: 0.5; }</style>`,
+    `<rect x="0" y="0" width="${width}" height="${height}" fill="#f8f8f8"/>`,
+    `<text x="${width / 2}" y="20" text-anchor="middle" style="font-size: 15px">${escapeXml(`Flame Graph: ${profile.name} (${(root.value / 1000).toFixed(1)}ms)`)}</text>`,
+    ...rects,
+    `</svg>`,
+    '',
+  ].join('\n');
+}
+
+function getFrameLabel(frame: FlameFrame): string {
+  if (!frame.file) {
+    return frame.name;
+  }
+  const file = frame.isSourceMapped ? frame.file : frame.file.split('/').pop() || frame.file;
+  return `${frame.name} (${file}:${frame.line})`;
+}
+
+// Source-mapped frames are red to orange, other scripts yellow, V8 internals grey
+function getFrameColor(frame: FlameFrame | null): string {
+  if (!frame || !frame.file) {
+    return 'rgb(200,200,200)';
+  }
+  let hash = 0;
+  for (const char of frame.name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  const variation = hash % 80;
+  return frame.isSourceMapped
+    ? `rgb(${205 + (variation % 50)},${60 + variation},40)`
+    : `rgb(${220 + (variation % 35)},${170 + (variation % 60)},60)`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -1,9 +1,31 @@
-import { CPUProfileAnalysis, PerformanceMetrics } from "./types";
+import {
+  AttributionGroup,
+  BudgetResult,
+  CPUAttribution,
+  CPUProfileAnalysis,
+  CPUProfileDiff,
+  CoverageAnalysis,
+  CoverageGroup,
+  DeviceProfile,
+  FunctionDiff,
+  InteractionAnalysis,
+  MemoryAnalysis,
+  MergedProfileStatistics,
+  PerformanceMetrics,
+  ProfileQueryResult,
+  QueryFrame,
+  RunComparison,
+  SourceSnippet,
+  TraceAnalysis,
+} from "./types";
+import { CATEGORY_LABELS } from "./trace.js";
+import { describeThrottling } from "./throttling.js";
+import type { StepAnalysis } from "./analysis.js";
 
 
 export default class Formatter {
-  formatAnalysis(report: CPUProfileAnalysis, auditReport: PerformanceMetrics): string {
-    let output = `# COMPREHENSIVE PERFORMANCE ANALYSIS\n\n`;
+  formatAnalysis(report: CPUProfileAnalysis, auditReport: PerformanceMetrics, title = 'COMPREHENSIVE PERFORMANCE ANALYSIS'): string {
+    let output = `# ${title}\n\n`;
 
     output += `## 🎯 EXECUTIVE SUMMARY\n`;
     output += `- **Total CPU Execution Time**: ${report.executive_summary.total_execution_time_ms}ms\n`;
@@ -11,7 +33,13 @@ export default class Formatter {
     output += `- **Sample Interval**: ${report.executive_summary.sample_interval_ms}ms\n`;
     output += `\n`;
 
-    const markdownReport = this.formatAuditReport(auditReport);
+    if (report.statistics) {
+      output += `## 📈 MERGED PROFILE STATISTICS\n`;
+      output += `*${report.statistics.profileCount} profiles merged by source-mapped function, the report shows mean times per profile*\n\n`;
+      output += this.formatMergedStatistics(report.statistics);
+    }
+
+    const markdownReport = auditReport ? this.formatAuditReport(auditReport) : '';
     if (markdownReport) {
       output += `## 📊 WEB VITALS & LONG TASKS CORRELATION\n`;
       output += markdownReport;
@@ -41,7 +69,55 @@ export default class Formatter {
       });
       output += `\n`;
 
+      const withStacks = report.high_impact_functions.slice(0, 5).filter(func => func.resolvedStackTrace);
+      if (withStacks.length > 0) {
+        output += `### Call Stacks\n\n`;
+        output += `*Why the hottest functions ran, from the function up to the outermost caller*\n\n`;
+        withStacks.forEach(func => {
+          output += `**${func.function}** (${func.execution_time_ms}ms)\n\n`;
+          output += `\`\`\`\n${func.resolvedStackTrace}\n\`\`\`\n\n`;
+        });
+      }
+
+      const withSnippets = report.high_impact_functions.slice(0, 5).filter(func => func.sourceSnippet);
+      if (withSnippets.length > 0) {
+        output += `### Original Source\n\n`;
+        output += `*The hot line is marked with >, only functions whose source map embeds the sources are shown*\n\n`;
+        withSnippets.forEach(func => {
+          output += `**${func.function}** (${func.execution_time_ms}ms)\n\n`;
+          output += this.formatSourceSnippet(func.sourceSnippet);
+        });
+      }
+    }
+
+    if (report.attribution?.origins.length > 0) {
+      output += `## 📦 CPU TIME BY ORIGIN\n`;
+      output += `*Self time is spent in the code itself, total time includes everything it called*\n\n`;
+      output += this.formatAttribution(report.attribution);
+    }
+
+    if (report.memory_analysis) {
+      output += `## 🧠 MEMORY\n`;
+      output += `*Sampled allocations by function and the JS heap size while the page loaded*\n\n`;
+      output += this.formatMemoryAnalysis(report.memory_analysis);
+    }
+
+    if (report.coverage_analysis) {
+      output += `## ✂️ UNUSED CODE\n`;
+      output += `*JS never executed and CSS rules never matched while the page loaded*\n\n`;
+      output += this.formatCoverage(report.coverage_analysis);
+    }
 
+    if (report.trace_analysis) {
+      output += `## 🧵 MAIN THREAD BREAKDOWN\n`;
+      output += `*Where the main thread spent its time according to the trace events*\n\n`;
+      output += this.formatTraceAnalysis(report.trace_analysis);
+    }
+
+    if (report.interactions?.length > 0) {
+      output += `## 👆 INTERACTIONS (INP)\n`;
+      output += `*Each interaction split into input delay, processing time and presentation delay*\n\n`;
+      output += this.formatInteractions(report.interactions);
     }
 
     // Flamegraph Analysis for LLM
@@ -143,11 +219,274 @@ export default class Formatter {
     return output;
   }
 
-  private formatAuditReport(result: PerformanceMetrics): string {
+  formatFlowAnalysis(auditReport: PerformanceMetrics | null, steps: StepAnalysis[]): string {
+    let output = `# USER FLOW PERFORMANCE ANALYSIS\n\n`;
+    if (auditReport) {
+      output += `**URL**: ${auditReport.url}\n`;
+      output += `**Audit Date**: ${new Date(auditReport.timestamp).toLocaleString()}\n\n`;
+    }
+
+    output += `| # | Step | Mode | Performance Score | CPU Time |\n`;
+    output += `|---|------|------|-------------------|----------|\n`;
+    steps.forEach((step, index) => {
+      const score = typeof step.metrics?.performanceScore === 'number' ? `${step.metrics.performanceScore}/100` : 'N/A';
+      const cpuTime = step.analysis ? `${step.analysis.executive_summary.total_execution_time_ms}ms` : 'N/A';
+      output += `| ${index + 1} | ${step.name} | ${step.mode} | ${score} | ${cpuTime} |\n`;
+    });
+    output += `\n`;
+
+    steps.forEach((step, index) => {
+      const title = `STEP ${index + 1}: ${step.name.toUpperCase()} (${step.mode})`;
+      output += `---\n\n`;
+      if (step.analysis) {
+        output += this.formatAnalysis(step.analysis, step.metrics, title);
+      } else {
+        output += `# ${title}\n\n`;
+        output += step.metrics ? this.formatAuditReport(step.metrics) : `*No data recorded for this step*\n`;
+      }
+      output += `\n`;
+    });
+    return output;
+  }
+
+  formatComparison(comparison: RunComparison): string {
+    const describe = (run: RunComparison['baseline']) =>
+      `${run.runId || 'report'} (${new Date(run.timestamp).toLocaleString()})`;
+
+    let output = `# PERFORMANCE COMPARISON\n\n`;
+    output += `- **Baseline**: ${describe(comparison.baseline)} - ${comparison.baseline.url}\n`;
+    output += `- **Current**: ${describe(comparison.current)} - ${comparison.current.url}\n`;
+    if (comparison.baseline.url !== comparison.current.url) {
+      output += `\n⚠️ **The compared runs audited different URLs.**\n`;
+    }
+    output += `\n`;
+
+    const getVerdictEmoji = (verdict: string) => {
+      switch (verdict) {
+        case 'improvement': return '✅ Improvement';
+        case 'regression': return '❌ Regression';
+        default: return '➖ Noise';
+      }
+    };
+
+    output += `| Metric | Baseline | Current | Delta | Delta % | Verdict |\n`;
+    output += `|--------|----------|---------|-------|---------|---------|\n`;
+    comparison.metrics.forEach(metric => {
+      const sign = metric.delta > 0 ? '+' : '';
+      const deltaPercent = metric.deltaPercent !== null ? `${sign}${metric.deltaPercent}%` : 'N/A';
+      output += `| ${metric.label} | ${metric.baseline}${metric.unit} | ${metric.current}${metric.unit} | ${sign}${metric.delta}${metric.unit} | ${deltaPercent} | ${getVerdictEmoji(metric.verdict)} |\n`;
+    });
+    output += `\n`;
+
+    const { improvements, regressions, noise } = comparison.summary;
+    output += `**Summary**: ${improvements} improvement(s), ${regressions} regression(s), ${noise} within noise\n`;
+    return output;
+  }
+
+  formatProfileDiff(diff: CPUProfileDiff, limit = 15): string {
+    let output = `# CPU PROFILE DIFF\n\n`;
+    output += `| | Baseline | Current |\n`;
+    output += `|--|----------|---------|\n`;
+    output += `| Total CPU Execution Time | ${diff.baseline.total_execution_time_ms}ms | ${diff.current.total_execution_time_ms}ms |\n`;
+    output += `| Functions | ${diff.baseline.function_count} | ${diff.current.function_count} |\n\n`;
+
+    const formatSource = (func: FunctionDiff) => {
+      const file = func.file.split('/').slice(-2).join('/');
+      return func.isSourceMapped ? `${file} ✅` : file;
+    };
+    const signed = (value: number) => `${value > 0 ? '+' : ''}${value}ms`;
+
+    const formatChanged = (title: string, description: string, functions: FunctionDiff[]) => {
+      if (functions.length === 0) return '';
+      let section = `## ${title}\n`;
+      section += `*${description}*\n\n`;
+      section += `| Function | Original Source | Self Time | Self Δ | Total Time | Total Δ |\n`;
+      section += `|----------|-----------------|-----------|--------|------------|---------|\n`;
+      functions.slice(0, limit).forEach(func => {
+        section += `| ${func.function} | ${formatSource(func)} | ${func.baseline.selfTime}ms → ${func.current.selfTime}ms | ${signed(func.selfTimeDelta)} | ${func.baseline.totalTime}ms → ${func.current.totalTime}ms | ${signed(func.totalTimeDelta)} |\n`;
+      });
+      return section + `\n`;
+    };
+
+    const formatOneSided = (title: string, description: string, functions: FunctionDiff[], side: 'baseline' | 'current') => {
+      if (functions.length === 0) return '';
+      let section = `## ${title}\n`;
+      section += `*${description}*\n\n`;
+      section += `| Function | Original Source | Self Time | Total Time |\n`;
+      section += `|----------|-----------------|-----------|------------|\n`;
+      functions.slice(0, limit).forEach(func => {
+        section += `| ${func.function} | ${formatSource(func)} | ${func[side].selfTime}ms | ${func[side].totalTime}ms |\n`;
+      });
+      return section + `\n`;
+    };
+
+    output += formatChanged('🔺 FUNCTIONS THAT GOT SLOWER', 'Matched functions that gained CPU time', diff.gained);
+    output += formatChanged('🔻 FUNCTIONS THAT GOT FASTER', 'Matched functions that lost CPU time', diff.lost);
+    output += formatOneSided('🆕 NEW FUNCTIONS', 'Functions only present in the current profile', diff.added, 'current');
+    output += formatOneSided('🗑️ REMOVED FUNCTIONS', 'Functions only present in the baseline profile', diff.removed, 'baseline');
+
+    if (diff.gained.length + diff.lost.length + diff.added.length + diff.removed.length === 0) {
+      output += `**No significant function-level changes detected.**\n`;
+    }
+    return output;
+  }
+
+  formatProfileQuery(result: ProfileQueryResult): string {
+    let output = `# CPU PROFILE QUERY\n\n`;
+    output += `*${result.totalTime}ms of samples after the focus, exclude and node filters*\n\n`;
+    const formatSource = (frame: QueryFrame) => {
+      if (!frame.file) return 'N/A';
+      const file = `${frame.file.split('/').slice(-2).join('/')}:${frame.line}`;
+      return frame.isSourceMapped ? `${file} ✅` : file;
+    };
+
+    if (result.target) {
+      const { target } = result;
+      if (target.matches.length === 0) {
+        return output + `**No sampled function matches the query.**\n`;
+      }
+      output += `## 🎯 TARGET\n`;
+      target.matches.slice(0, 10).forEach(match => output += `- ${match}\n`);
+      if (target.matches.length > 10) {
+        output += `- ... ${target.matches.length - 10} more\n`;
+      }
+      output += `\n- **Self Time**: ${target.selfTime}ms\n`;
+      output += `- **Total Time**: ${target.totalTime}ms\n\n`;
+
+      output += `## ⬆️ CALLERS\n`;
+      output += `*Time spent in the target when called from each caller*\n\n`;
+      if (target.callers.length > 0) {
+        output += `| Caller | Source | Time | Share | Node |\n`;
+        output += `|--------|--------|------|-------|------|\n`;
+        target.callers.forEach(frame => {
+          output += `| ${frame.name} | ${formatSource(frame)} | ${frame.totalTime}ms | ${frame.percentage}% | ${frame.nodeId} |\n`;
+        });
+      } else {
+        output += `The target is only sampled at the top of the stack.\n`;
+      }
+      output += `\n`;
+
+      output += `## ⬇️ CALLEES\n`;
+      output += `*Functions called by the target, total time includes everything they called*\n\n`;
+      if (target.callees.length > 0) {
+        output += `| Callee | Source | Self Time | Total Time | Share | Node |\n`;
+        output += `|--------|--------|-----------|------------|-------|------|\n`;
+        target.callees.forEach(frame => {
+          output += `| ${frame.name} | ${formatSource(frame)} | ${frame.selfTime}ms | ${frame.totalTime}ms | ${frame.percentage}% | ${frame.nodeId} |\n`;
+        });
+      } else {
+        output += `The target doesn't call any sampled function.\n`;
+      }
+      output += `\n`;
+    }
+
+    if (result.tree) {
+      output += `## 🌳 ${result.view === 'top-down' ? 'TOP-DOWN' : 'BOTTOM-UP'} TREE\n`;
+      output += result.view === 'top-down'
+        ? `*Callers above their callees with total / self time, pass a node ID as nodeId to query below it*\n\n`
+        : `*Functions by self time above the callers it was spent under, pass a node ID as nodeId to query below it*\n\n`;
+      const formatFrames = (frames: QueryFrame[], indent: string): string => frames
+        .map(frame => `${indent}${frame.name} (${formatSource(frame)}) ${frame.totalTime}ms / ${frame.selfTime}ms, ${frame.percentage}% [node ${frame.nodeId}]\n`
+          + formatFrames(frame.children || [], `${indent}  `))
+        .join('');
+      output += `\`\`\`\n${formatFrames(result.tree, '')}\`\`\`\n`;
+    }
+    return output;
+  }
+
+  formatBudgetResult(budget: BudgetResult): string {
+    const failed = budget.assertions.filter(assertion => !assertion.passed).length;
+    let output = budget.passed
+      ? `## ✅ Performance Budget Passed\n\n`
+      : `## ❌ Performance Budget Failed (${failed}/${budget.assertions.length})\n\n`;
+    output += `| Budget | Actual | Limit | Status |\n`;
+    output += `|--------|--------|-------|--------|\n`;
+    budget.assertions.forEach(assertion => {
+      const actual = assertion.actual !== null ? `${assertion.actual}${assertion.unit}` : 'N/A';
+      const limit = `${assertion.comparison === 'max' ? '≤' : '≥'} ${assertion.limit}${assertion.unit}`;
+      output += `| ${assertion.name} | ${actual} | ${limit} | ${assertion.passed ? '✅' : '❌'} |\n`;
+    });
+    return output + `\n`;
+  }
+
+  formatDeviceList(devices: Record<string, DeviceProfile>): string {
+    let output = `## 📱 Device Profiles\n\n`;
+    output += `| Device | Form Factor | Viewport | DPR | Touch | Default Throttling | Description |\n`;
+    output += `|--------|-------------|----------|-----|-------|--------------------|-------------|\n`;
+    Object.entries(devices).forEach(([name, device]) => {
+      const throttling = device.throttling ? describeThrottling(device.throttling) : 'Lighthouse default';
+      output += `| ${name} | ${device.formFactor} | ${device.viewport.width}x${device.viewport.height} | ${device.deviceScaleFactor || 1} | ${device.touch ? '✅' : '❌'} | ${throttling} | ${device.description || ''} |\n`;
+    });
+    return output + `\n`;
+  }
+
+  private formatInteractions(interactions: InteractionAnalysis[]): string {
+    let output = `| Interaction | Start | Duration | Input Delay | Processing | Presentation Delay | Rating |\n`;
+    output += `|-------------|-------|----------|-------------|------------|--------------------|--------|\n`;
+    interactions.forEach(interaction => {
+      const status = interaction.rating === 'good' ? '✅' : interaction.rating === 'needs-improvement' ? '⚠️' : '❌';
+      output += `| ${interaction.type} #${interaction.interaction_id} | ${interaction.start_ms}ms | ${interaction.duration_ms}ms | ${interaction.input_delay_ms}ms | ${interaction.processing_time_ms}ms | ${interaction.presentation_delay_ms}ms | ${status} ${interaction.rating} |\n`;
+    });
+    output += `\n`;
+
+    interactions
+      .filter(interaction => interaction.processing_functions.length > 0)
+      .forEach(interaction => {
+        output += `### Functions during processing of ${interaction.type} #${interaction.interaction_id}\n\n`;
+        output += `| Function | Original Source | Self Time |\n`;
+        output += `|----------|-----------------|-----------|\n`;
+        interaction.processing_functions.forEach(func => {
+          const source = func.isSourceMapped
+            ? `${func.originalFile}:${func.originalLine}:${func.originalColumn}`
+            : func.location;
+          output += `| ${func.function} | ${source} | ${func.self_time_ms}ms |\n`;
+        });
+        output += `\n`;
+      });
+    return output;
+  }
+
+  private formatTraceAnalysis(trace: TraceAnalysis): string {
+    let output = '';
+    const { main_thread } = trace;
+    output += `- **Trace Duration**: ${main_thread.total_time_ms}ms\n`;
+    output += `- **Busy Time**: ${main_thread.busy_time_ms}ms\n`;
+    output += `- **Idle Time**: ${main_thread.idle_time_ms}ms\n`;
+    output += `- **Top-Level Tasks**: ${main_thread.task_count} (${main_thread.long_task_count} over 50ms)\n\n`;
+
+    if (trace.category_breakdown.length > 0) {
+      output += `### Time by Category\n\n`;
+      output += `| Category | Time | Share | Visual Weight |\n`;
+      output += `|----------|------|-------|---------------|\n`;
+      trace.category_breakdown.forEach(entry => {
+        const bars = '█'.repeat(Math.max(1, Math.floor(parseFloat(entry.percentage) / 5)));
+        output += `| ${entry.label} | ${entry.time_ms}ms | ${entry.percentage}% | ${bars} |\n`;
+      });
+      output += `\n`;
+    }
+
+    if (trace.top_level_tasks.length > 0) {
+      output += `### Longest Top-Level Tasks\n\n`;
+      output += `| Start | Duration | Dominant Work | Script | Breakdown |\n`;
+      output += `|-------|----------|---------------|--------|-----------|\n`;
+      trace.top_level_tasks.forEach(task => {
+        const breakdown = Object.entries(task.breakdown)
+          .sort((a, b) => b[1] - a[1])
+          .map(([category, time]) => `${CATEGORY_LABELS[category]} ${time}ms`)
+          .join(', ');
+        const script = task.url ? task.url.split('/').pop() || task.url : 'N/A';
+        output += `| ${task.start_ms}ms | ${task.duration_ms}ms | ${CATEGORY_LABELS[task.dominant_category]} | ${script} | ${breakdown} |\n`;
+      });
+      output += `\n`;
+    }
+    return output;
+  }
+
+  formatAuditReport(result: PerformanceMetrics): string {
     let markdown = `# Performance Audit Report\n\n`;
     markdown += `**URL**: ${result.url}\n`;
     markdown += `**Audit Date**: ${new Date(result.timestamp).toLocaleString()}\n`;
-    markdown += `**Performance Score**: ${result.performanceScore}/100\n\n`;
+    markdown += `**Performance Score**: ${typeof result.performanceScore === 'number' ? `${result.performanceScore}/100` : 'N/A'}\n\n`;
 
     markdown += `## Core Web Vitals Analysis\n\n`;
     markdown += `| Metric | Value | Rating | Percentile | Status |\n`;
@@ -167,7 +506,8 @@ export default class Formatter {
       { name: 'Largest Contentful Paint (LCP)', key: 'lcp', unit: 'ms' },
       { name: 'Cumulative Layout Shift (CLS)', key: 'cls', unit: '' },
       { name: 'Time to First Byte (TTFB)', key: 'ttfb', unit: 'ms' },
-      { name: 'Total Blocking Time (TBT)', key: 'tbt', unit: 'ms' }
+      { name: 'Total Blocking Time (TBT)', key: 'tbt', unit: 'ms' },
+      { name: 'Interaction to Next Paint (INP)', key: 'inp', unit: 'ms' }
     ];
 
     vitals.forEach(vital => {
@@ -180,6 +520,26 @@ export default class Formatter {
 
     markdown += `\n`;
 
+    if (result.aggregate) {
+      const { aggregate } = result;
+      markdown += `## Multi-Run Statistics\n\n`;
+      markdown += `*${aggregate.runs} runs, run ${aggregate.representativeRun} is closest to the median and is the one profiled above*\n\n`;
+      markdown += `| Metric | Median | p75 | Min | Max | Std Dev |\n`;
+      markdown += `|--------|--------|-----|-----|-----|---------|\n`;
+      const stats = aggregate.performanceScore;
+      if (stats) {
+        markdown += `| Performance Score | ${stats.median} | ${stats.p75} | ${stats.min} | ${stats.max} | ${stats.stdDev} |\n`;
+      }
+      vitals.forEach(vital => {
+        const metricStats = aggregate.coreWebVitals[vital.key];
+        if (metricStats) {
+          const unit = vital.unit;
+          markdown += `| ${vital.name} | ${metricStats.median}${unit} | ${metricStats.p75}${unit} | ${metricStats.min}${unit} | ${metricStats.max}${unit} | ${metricStats.stdDev}${unit} |\n`;
+        }
+      });
+      markdown += `\n`;
+    }
+
     const issues = [];
     vitals.forEach(vital => {
       const metric = result.coreWebVitals[vital.key];
@@ -194,6 +554,10 @@ export default class Formatter {
       markdown += `\n`;
     }
 
+    if (result.budget) {
+      markdown += this.formatBudgetResult(result.budget);
+    }
+
     if (result.longTasks && result.longTasks.details && (result.longTasks.details as any).items) {
       const longTaskItems = (result.longTasks.details as any).items;
 
@@ -225,6 +589,16 @@ export default class Formatter {
             const impact = task.duration > 100 ? '🔴 Critical' : task.duration > 50 ? '🟡 High' : '🟢 Medium';
             markdown += `| ${url} | ${task.duration.toFixed(1)}ms | ${impact} |\n`;
           });
+        markdown += `\n`;
+
+        const withSnippets = longTaskItems.filter((task: any) => task.snippet);
+        if (withSnippets.length > 0) {
+          markdown += `### Long Task Sources\n\n`;
+          withSnippets.forEach((task: any) => {
+            markdown += `**${task.url}:${task.line}** (${task.duration.toFixed(1)}ms)\n\n`;
+            markdown += this.formatSourceSnippet(task.snippet);
+          });
+        }
       } else {
         markdown += `## ✅ Long Tasks Analysis\n\n`;
         markdown += `**No long tasks detected**.\n\n`;
@@ -232,4 +606,133 @@ export default class Formatter {
     }
     return markdown;
   }
+
+  private formatMergedStatistics(statistics: MergedProfileStatistics, limit = 15): string {
+    const confidenceIcons = { high: '🟢 High', medium: '🟡 Medium', low: '🔴 Low' };
+    let output = `- **Total CPU Execution Time**: ${statistics.meanTotalTime}ms ± ${statistics.totalTimeStdDev}ms\n\n`;
+    output += `| Function | Original Source | Mean Self Time | Std Dev | Variance | Sampled In | Confidence |\n`;
+    output += `|----------|-----------------|----------------|---------|----------|------------|------------|\n`;
+    statistics.functions.slice(0, limit).forEach(func => {
+      const file = func.file ? func.file.split('/').slice(-2).join('/') : 'N/A';
+      output += `| ${func.function} | ${func.isSourceMapped ? `${file} ✅` : file} | ${func.meanSelfTime}ms | ${func.stdDev}ms | ${func.variance}ms² | ${func.presentIn}/${statistics.profileCount} | ${confidenceIcons[func.confidence]} |\n`;
+    });
+    output += `\n*Confidence comes from the standard error of the mean, low confidence times need more profiles before drawing conclusions*\n\n`;
+    return output;
+  }
+
+  private formatAttribution(attribution: CPUAttribution): string {
+    let output = '';
+    const firstParty = attribution.firstPartyDomains.length > 0
+      ? attribution.firstPartyDomains.join(', ')
+      : 'not configured, every host is listed separately';
+    output += `**First party**: ${firstParty}\n\n`;
+
+    const formatGroups = (title: string, groups: AttributionGroup[]) => {
+      if (groups.length === 0) return '';
+      let table = `### ${title}\n\n`;
+      table += `| Name | Self Time | Total Time | Self % |\n`;
+      table += `|------|-----------|------------|--------|\n`;
+      groups.slice(0, 10).forEach(group => {
+        table += `| ${group.name} | ${group.selfTime}ms | ${group.totalTime}ms | ${group.percentage}% |\n`;
+      });
+      return table + `\n`;
+    };
+
+    output += formatGroups('By Origin', attribution.origins);
+    output += formatGroups('By npm Package', attribution.packages);
+    output += formatGroups('By Source Directory', attribution.directories);
+    return output;
+  }
+
+  private formatMemoryAnalysis(memory: MemoryAnalysis): string {
+    const { heap } = memory;
+    const growth = heap.retained_growth_bytes;
+    let output = '';
+    output += `- **Sampled Allocations**: ${this.formatBytes(memory.total_allocated_bytes)}\n`;
+    output += `- **JS Heap**: ${this.formatBytes(heap.initial_bytes)} initial, ${this.formatBytes(heap.peak_bytes)} peak, ${this.formatBytes(heap.final_bytes)} final over ${heap.duration_ms}ms\n`;
+    output += `- **Retained After GC**: ${this.formatBytes(heap.retained_before_bytes)} before, ${this.formatBytes(heap.retained_after_bytes)} after (${growth >= 0 ? '+' : '-'}${this.formatBytes(Math.abs(growth))})\n\n`;
+
+    if (heap.timeline.length > 1) {
+      output += `### Heap Size Over Time\n\n`;
+      output += `| Time | Used Heap | Visual Weight |\n`;
+      output += `|------|-----------|---------------|\n`;
+      heap.timeline.forEach(point => {
+        const bars = '█'.repeat(Math.max(1, Math.round((point.used_bytes / (heap.peak_bytes || 1)) * 20)));
+        output += `| ${point.time_ms}ms | ${this.formatBytes(point.used_bytes)} | ${bars} |\n`;
+      });
+      output += `\n`;
+    }
+
+    if (memory.top_allocations.length > 0) {
+      output += `### Top Allocating Functions\n\n`;
+      output += `| Function | Original Source | Minified Location | Allocated | Share | Source Mapped |\n`;
+      output += `|----------|-----------------|-------------------|-----------|-------|---------------|\n`;
+      memory.top_allocations.forEach(allocation => {
+        const name = allocation.originalName || allocation.function;
+        const source = allocation.isSourceMapped ? `${allocation.originalFile}:${allocation.originalLine}` : 'N/A';
+        const location = allocation.location.split('/').pop() || allocation.location;
+        output += `| ${name} | ${source} | ${location} | ${this.formatBytes(allocation.self_size_bytes)} | ${allocation.percentage}% | ${allocation.isSourceMapped ? '✅' : '❌'} |\n`;
+      });
+      output += `\n*Allocations include objects that were garbage collected later, retained growth is what survived a forced GC at the end*\n\n`;
+    }
+    return output;
+  }
+
+  private formatCoverage(coverage: CoverageAnalysis): string {
+    const describe = (usage: CoverageAnalysis['total']) =>
+      `${this.formatBytes(usage.unused_bytes)} of ${this.formatBytes(usage.total_bytes)} (${usage.unused_percentage}%)`;
+    let output = '';
+    output += `- **Unused**: ${describe(coverage.total)}\n`;
+    output += `- **Unused JavaScript**: ${describe(coverage.js)}\n`;
+    output += `- **Unused CSS**: ${describe(coverage.css)}\n`;
+    coverage.directories
+      .filter(directory => parseFloat(directory.unused_percentage) >= 50)
+      .slice(0, 3)
+      .forEach(directory => {
+        output += `- ${Math.round(parseFloat(directory.unused_percentage))}% of \`${directory.name}/*\` is never executed on this page\n`;
+      });
+    output += `\n`;
+
+    const formatGroups = (title: string, label: string, groups: CoverageGroup[], suffix = '') => {
+      if (groups.length === 0) return '';
+      let table = `### ${title}\n\n`;
+      table += `| ${label} | Size | Unused | Unused % |\n`;
+      table += `|${'-'.repeat(label.length + 2)}|------|--------|----------|\n`;
+      groups.forEach(group => {
+        table += `| ${group.name}${suffix} | ${this.formatBytes(group.total_bytes)} | ${this.formatBytes(group.unused_bytes)} | ${group.unused_percentage}% |\n`;
+      });
+      return table + `\n`;
+    };
+    output += formatGroups('By Source Directory', 'Directory', coverage.directories, '/*');
+    output += formatGroups('By npm Package', 'Package', coverage.packages);
+    output += formatGroups('By Original File', 'File', coverage.sources);
+
+    if (coverage.files.length > 0) {
+      output += `### Scripts and Stylesheets\n\n`;
+      output += `| File | Type | Size | Unused | Unused % | Source Mapped |\n`;
+      output += `|------|------|------|--------|----------|---------------|\n`;
+      coverage.files.forEach(file => {
+        const name = file.name.split('/').pop() || file.name;
+        output += `| ${name} | ${file.type.toUpperCase()} | ${this.formatBytes(file.total_bytes)} | ${this.formatBytes(file.unused_bytes)} | ${file.unused_percentage}% | ${file.isSourceMapped ? '✅' : '❌'} |\n`;
+      });
+      output += `\n*Sizes are uncompressed characters of the code as loaded, source-mapped scripts are split by the original file each span of generated code maps to*\n\n`;
+    }
+    return output;
+  }
+
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes}B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+    return `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+  }
+
+  private formatSourceSnippet(snippet: SourceSnippet): string {
+    const width = String(snippet.startLine + snippet.lines.length - 1).length;
+    const lines = snippet.lines.map((line, index) => {
+      const lineNumber = snippet.startLine + index;
+      const marker = lineNumber === snippet.highlightLine ? '>' : ' ';
+      return `${marker} ${String(lineNumber).padStart(width)} | ${line}`;
+    });
+    return `*${snippet.file}*\n\n\`\`\`\n${lines.join('\n')}\n\`\`\`\n\n`;
+  }
 }
\ No newline at end of file
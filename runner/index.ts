@@ -1,10 +1,30 @@
 #!/usr/bin/env node
 
-import { join } from "node:path";
+import { readFile } from "node:fs/promises";
 import { program } from "commander";
-import { AuditRunner, outputDir } from './audit.js';
-import CPUProfileAnalyzer from "./analyzer.js";
+import { AuditRunner } from './audit.js';
+import { resolveAnalysisInputs } from './runs.js';
+import { analyzeMergedProfiles, analyzeRun } from './analysis.js';
 import Formatter from "./formatter.js";
+import { compareReports, loadReport } from "./compare.js";
+import { diffProfiles, loadProfile } from "./diff.js";
+import { queryProfile } from "./query.js";
+import { loadBudget } from "./budget.js";
+import { loadDeviceRegistry } from "./devices.js";
+import { toAnalysisResult, toAuditResult } from "./schema.js";
+import { exportFlamegraph } from "./flamegraph.js";
+import { loadSourceMapConfig } from "./resolver.js";
+import { createStreamSink, getEnvLogLevel, logger } from "./logger.js";
+
+// JSON output keeps stdout for the result document, progress goes to stderr
+function setOutputFormat(format: string) {
+  if (format !== 'markdown' && format !== 'json') {
+    throw new Error(`Unknown output format: ${format}, use markdown or json`);
+  }
+  if (format === 'json') {
+    logger.setSinks([createStreamSink(process.stderr, getEnvLogLevel())]);
+  }
+}
 
 program
   .command("audit")
@@ -12,20 +32,69 @@ program
     "Run comprehensive performance audits using Lighthouse and Playwright"
   )
   .requiredOption("--url <url>", "URL to audit")
-  .option("--device <device>", "Device type (desktop|mobile)", "desktop")
+  .option("--device <device>", "Device profile (desktop|mobile|tablet|low-end-android|desktop-4k or a user-defined one)", "desktop")
+  .option("--devices <devices>", "User-defined device profiles JSON file")
   .option("--profile", "Enable CPU profiling", true)
+  .option("--memory", "Record a sampling heap profile and the JS heap size over time")
+  .option("--coverage", "Record JS and CSS coverage of the page load")
   .option("--headless", "Run in headless mode", true)
+  .option("--runs <runs>", "Number of times to repeat the audit, metrics are aggregated across runs", "1")
+  .option("--budget <budget>", "Performance budget JSON file, exits with a non-zero code when a budget fails")
+  .option("--source-maps <sourceMaps>", "Source map lookup config JSON file, CPU budgets on files match the original paths")
+  .option("--auth <auth>", "Authentication config JSON file (form login, cookies, headers or storage state)")
+  .option("--steps <steps>", "User flow steps JSON file, each navigation, timespan and snapshot is measured separately")
+  .option("--interactions <interactions>", "Interaction steps JSON file, measured in a timespan after load for Interaction to Next Paint")
+  .option("--throttling <throttling>", "Throttling preset (none|fast4g|slow4g|3g) or a custom throttling JSON file")
+  .option("--format <format>", "Output format (markdown|json)", "markdown")
+  .action(async (options) => {
+    try {
+      setOutputFormat(options.format);
+      const runner = new AuditRunner({
+        device: options.device,
+        devices: options.devices ? JSON.parse(await readFile(options.devices, 'utf-8')) : undefined,
+        profile: options.profile,
+        memory: options.memory,
+        coverage: options.coverage,
+        headless: options.headless,
+        runs: parseInt(options.runs, 10),
+        budget: options.budget ? await loadBudget(options.budget) : undefined,
+        sourceMaps: options.sourceMaps ? await loadSourceMapConfig(options.sourceMaps) : undefined,
+        auth: options.auth ? JSON.parse(await readFile(options.auth, 'utf-8')) : undefined,
+        steps: options.steps ? JSON.parse(await readFile(options.steps, 'utf-8')) : undefined,
+        interactions: options.interactions ? JSON.parse(await readFile(options.interactions, 'utf-8')) : undefined,
+        throttling: options.throttling && options.throttling.endsWith('.json')
+          ? JSON.parse(await readFile(options.throttling, 'utf-8'))
+          : options.throttling,
+      });
+      // Ctrl+C closes the browser before exiting
+      const controller = new AbortController();
+      process.once('SIGINT', () => controller.abort());
+      const report = await runner.runAudit(options.url, controller.signal);
+      if (options.format === 'json') {
+        console.log(JSON.stringify(toAuditResult(report), null, 2));
+      } else {
+        console.log(new Formatter().formatAuditReport(report));
+        console.log(`Run ID: ${report.runId}`);
+      }
+      if (report.budget && !report.budget.passed) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      logger.error("Performance audit failed:", error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("devices")
+  .description("List the available device profiles")
+  .option("--devices <devices>", "User-defined device profiles JSON file")
   .action(async (options) => {
-    const runner = new AuditRunner({
-      device: options.device,
-      profile: options.profile,
-      headless: options.headless,
-    });
     try {
-      const report = await runner.runAudit(options.url);
-      console.log(report);
+      const devices = options.devices ? JSON.parse(await readFile(options.devices, 'utf-8')) : undefined;
+      console.log(new Formatter().formatDeviceList(loadDeviceRegistry(devices)));
     } catch (error) {
-      console.error("Performance audit failed:", error);
+      logger.error("Listing devices failed:", error);
       process.exit(1);
     }
   });
@@ -33,19 +102,129 @@ program
 program
   .command("analyze")
   .description("Analyze CPU profile and trace data")
-  .requiredOption("--profile <profile>", "CPU profile to analyze")
+  .option("--run <runId>", "Audit run ID to analyze")
+  .option("--profile <profile>", "CPU profile to analyze")
   .option("--trace <trace>", "Performance trace to analyze")
+  .option("--format <format>", "Output format (markdown|json)", "markdown")
+  .option("--flamegraph <flamegraph>", "Export a flamegraph of the CPU profile instead (speedscope|folded|svg)")
+  .option("--output <output>", "Flamegraph output path, defaults to a file next to the CPU profile")
+  .option("--source-maps <sourceMaps>", "Source map lookup config JSON file (URL rewrites, local .map directories)")
+  .option("--snippet-context <lines>", "Lines of original source shown around hot lines, 0 turns snippets off")
+  .option("--first-party <domains>", "Comma-separated first-party domains for the CPU time by origin, defaults to the audited site")
+  .option("--merge <profiles>", "Comma-separated run IDs or CPU profiles to merge into one statistical profile, a run ID adds all its iterations")
+  .action(async (options) => {
+    try {
+      setOutputFormat(options.format);
+      let sourceMaps = options.sourceMaps ? await loadSourceMapConfig(options.sourceMaps) : undefined;
+      if (options.snippetContext !== undefined) {
+        sourceMaps = { ...sourceMaps, snippetContext: parseInt(options.snippetContext, 10) };
+      }
+      const attribution = {
+        firstPartyDomains: options.firstParty?.split(',').map((domain: string) => domain.trim()).filter(Boolean),
+      };
+      let analysis;
+      if (options.merge) {
+        const profiles = options.merge.split(',').map((profile: string) => profile.trim());
+        analysis = await analyzeMergedProfiles(profiles, sourceMaps, attribution);
+      } else {
+        const inputs = await resolveAnalysisInputs({
+          runId: options.run,
+          cpuProfilePath: options.profile,
+          traceEventsPath: options.trace,
+        });
+        if (options.flamegraph) {
+          // The flamegraph itself is in the file, JSON output only describes it
+          const { content, ...result } = await exportFlamegraph(inputs.cpuProfilePath, options.flamegraph, options.output, sourceMaps);
+          console.log(options.format === 'json' ? JSON.stringify(result, null, 2) : `Flamegraph saved to ${result.path}`);
+          return;
+        }
+        analysis = await analyzeRun(inputs, sourceMaps, attribution);
+      }
+      console.log(options.format === 'json'
+        ? JSON.stringify(toAnalysisResult(analysis), null, 2)
+        : analysis.markdown);
+    } catch (error) {
+      logger.error('Analysis failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("compare")
+  .description("Compare two saved audit reports and show metric deltas")
+  .requiredOption("--baseline <baseline>", "Run ID or report.json of the baseline audit")
+  .requiredOption("--current <current>", "Run ID or report.json of the current audit")
+  .action(async (options) => {
+    try {
+      const comparison = compareReports(
+        await loadReport(options.baseline),
+        await loadReport(options.current)
+      );
+      const formatter = new Formatter();
+      console.log(formatter.formatComparison(comparison));
+    } catch (error) {
+      logger.error('Comparison failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("diff")
+  .description("Diff two CPU profiles function by function")
+  .requiredOption("--baseline <baseline>", "Run ID or CPU profile of the baseline")
+  .requiredOption("--current <current>", "Run ID or CPU profile of the current version")
+  .option("--limit <limit>", "Maximum number of functions per section", "15")
+  .option("--source-maps <sourceMaps>", "Source map lookup config JSON file (URL rewrites, local .map directories)")
+  .action(async (options) => {
+    try {
+      const diff = await diffProfiles(
+        await loadProfile(options.baseline),
+        await loadProfile(options.current),
+        options.sourceMaps ? await loadSourceMapConfig(options.sourceMaps) : undefined
+      );
+      const formatter = new Formatter();
+      console.log(formatter.formatProfileDiff(diff, parseInt(options.limit, 10)));
+    } catch (error) {
+      logger.error('Profile diff failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("query")
+  .description("Explore the call tree of a CPU profile: callers and callees of a function, or top-down and bottom-up trees")
+  .option("--run <runId>", "Audit run ID whose CPU profile is queried")
+  .option("--profile <profile>", "CPU profile to query")
+  .option("--view <view>", "function, top-down or bottom-up, defaults to function when --function or --file is given")
+  .option("--function <name>", "Function name, minified or original")
+  .option("--file <file>", "Part of the original file path or script URL")
+  .option("--node <nodeId>", "Call tree node to root the tree views at")
+  .option("--focus <pattern>", "Only keep stacks through a frame with this function name or file")
+  .option("--exclude <patterns>", "Comma-separated function names or files to leave out")
+  .option("--depth <depth>", "Levels of the tree views", "4")
+  .option("--limit <limit>", "Maximum number of entries per level", "10")
+  .option("--source-maps <sourceMaps>", "Source map lookup config JSON file (URL rewrites, local .map directories)")
   .action(async (options) => {
     try {
-      const analyzer = new CPUProfileAnalyzer();
-      const cpuReport = await analyzer.analyzeCPUProfile(options.profile, options.trace);
-      const auditReportPath = join(outputDir, 'report.json');
-      const auditReport = await analyzer.analyzeAuditReport(auditReportPath);
+      const inputs = await resolveAnalysisInputs({ runId: options.run, cpuProfilePath: options.profile });
+      const result = await queryProfile(
+        await loadProfile(inputs.cpuProfilePath),
+        {
+          view: options.view,
+          function: options.function,
+          file: options.file,
+          nodeId: options.node !== undefined ? parseInt(options.node, 10) : undefined,
+          focus: options.focus,
+          exclude: options.exclude?.split(',').map((pattern: string) => pattern.trim()).filter(Boolean),
+          depth: parseInt(options.depth, 10),
+          limit: parseInt(options.limit, 10),
+        },
+        options.sourceMaps ? await loadSourceMapConfig(options.sourceMaps) : undefined
+      );
       const formatter = new Formatter();
-      const formattedAnalysis = formatter.formatAnalysis(cpuReport, auditReport);
-      console.log(formattedAnalysis);
+      console.log(formatter.formatProfileQuery(result));
     } catch (error) {
-      console.error('Analysis failed:', error);
+      logger.error('Profile query failed:', error);
       process.exit(1);
     }
   });
@@ -0,0 +1,76 @@
+import type { TraceEvent } from './types';
+
+export interface TraceInteraction {
+  interactionId: number;
+  type: string;
+  start: number;            // Trace timestamp (µs) of the input event
+  duration: number;         // ms from input to next paint
+  inputDelay: number;       // ms
+  processingTime: number;   // ms
+  presentationDelay: number; // ms
+  processingStart: number;  // Trace timestamp (µs)
+  processingEnd: number;    // Trace timestamp (µs)
+}
+
+// Interaction types as reported by the Event Timing API, pointerdown/pointerup/click
+// (or keydown/keyup) of the same user action share one interaction ID
+const INTERACTION_TYPE_NAMES: Record<string, string> = {
+  pointerdown: 'tap',
+  pointerup: 'tap',
+  click: 'tap',
+  mousedown: 'tap',
+  mouseup: 'tap',
+  keydown: 'keyboard',
+  keypress: 'keyboard',
+  keyup: 'keyboard',
+};
+
+// Builds the INP phases of each interaction from the EventTiming trace events. The
+// event timing fields are in ms relative to the page's time origin while the trace
+// event timestamp marks the same moment as `timeStamp` in µs.
+export function extractInteractions(traceEvents: TraceEvent[]): TraceInteraction[] {
+  const eventsById = new Map<number, TraceEvent[]>();
+  for (const event of traceEvents) {
+    if (event.name !== 'EventTiming' || event.ph !== 'b') continue;
+    const data = event.args?.data;
+    if (!data || !data.interactionId || data.processingStart === undefined) continue;
+    const events = eventsById.get(data.interactionId) || [];
+    events.push(event);
+    eventsById.set(data.interactionId, events);
+  }
+
+  const interactions: TraceInteraction[] = [];
+  for (const [interactionId, events] of eventsById) {
+    const toTraceTime = (event: TraceEvent, ms: number) => event.ts + (ms - event.args.data.timeStamp) * 1000;
+
+    const start = Math.min(...events.map(event => event.ts));
+    const end = Math.max(...events.map(event => toTraceTime(event, event.args.data.timeStamp + event.args.data.duration)));
+    const processingStart = Math.min(...events.map(event => toTraceTime(event, event.args.data.processingStart)));
+    const processingEnd = Math.max(...events.map(event => toTraceTime(event, event.args.data.processingEnd)));
+    const [longest] = [...events].sort((a, b) => b.args.data.duration - a.args.data.duration);
+
+    interactions.push({
+      interactionId,
+      type: INTERACTION_TYPE_NAMES[longest.args.data.type] || longest.args.data.type,
+      start,
+      duration: round((end - start) / 1000),
+      inputDelay: round((processingStart - start) / 1000),
+      processingTime: round((processingEnd - processingStart) / 1000),
+      presentationDelay: round(Math.max(0, end - processingEnd) / 1000),
+      processingStart,
+      processingEnd,
+    });
+  }
+
+  return interactions.sort((a, b) => a.start - b.start);
+}
+
+export function getInteractionRating(duration: number): 'good' | 'needs-improvement' | 'poor' {
+  if (duration <= 200) return 'good';
+  if (duration <= 500) return 'needs-improvement';
+  return 'poor';
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
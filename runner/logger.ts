@@ -0,0 +1,101 @@
+import { appendFileSync } from 'node:fs';
+import { format } from 'node:util';
+
+// Syslog levels as used by the MCP logging capability
+export const LOG_LEVELS = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogSink {
+  level: LogLevel;
+  write(level: LogLevel, message: string): void;
+}
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel);
+}
+
+function isEnabled(sink: LogSink, level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(sink.level);
+}
+
+// Readable output for the CLI, progress on stdout and problems on stderr
+export function createConsoleSink(level: LogLevel = 'info'): LogSink {
+  return {
+    level,
+    write(messageLevel, message) {
+      if (messageLevel === 'debug') console.debug(message);
+      else if (messageLevel === 'info' || messageLevel === 'notice') console.info(message);
+      else if (messageLevel === 'warning') console.warn(message);
+      else console.error(message);
+    },
+  };
+}
+
+// Timestamped lines for stderr, which keeps stdout free for the stdio transport
+export function createStreamSink(stream: NodeJS.WritableStream, level: LogLevel = 'info'): LogSink {
+  return {
+    level,
+    write(messageLevel, message) {
+      stream.write(`${new Date().toISOString()} [${messageLevel}] ${message}\n`);
+    },
+  };
+}
+
+export function createFileSink(filePath: string, level: LogLevel = 'info'): LogSink {
+  return {
+    level,
+    write(messageLevel, message) {
+      appendFileSync(filePath, `${new Date().toISOString()} [${messageLevel}] ${message}\n`);
+    },
+  };
+}
+
+class Logger {
+  private sinks: LogSink[] = [createConsoleSink(getEnvLogLevel())];
+
+  setSinks(sinks: LogSink[]) {
+    this.sinks = sinks;
+  }
+
+  addSink(sink: LogSink) {
+    this.sinks.push(sink);
+  }
+
+  debug(...args: unknown[]) {
+    this.log('debug', args);
+  }
+
+  info(...args: unknown[]) {
+    this.log('info', args);
+  }
+
+  warn(...args: unknown[]) {
+    this.log('warning', args);
+  }
+
+  error(...args: unknown[]) {
+    this.log('error', args);
+  }
+
+  // Arguments are formatted like console.log's
+  log(level: LogLevel, args: unknown[]) {
+    const sinks = this.sinks.filter(sink => isEnabled(sink, level));
+    if (sinks.length === 0) return;
+    const message = format(...args);
+    for (const sink of sinks) {
+      try {
+        sink.write(level, message);
+      } catch {
+        // A broken sink must not break the audit
+      }
+    }
+  }
+}
+
+export function getEnvLogLevel(): LogLevel {
+  const level = process.env.WEB_PERF_LOG_LEVEL;
+  return isLogLevel(level) ? level : 'info';
+}
+
+export const logger = new Logger();
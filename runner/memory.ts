@@ -0,0 +1,128 @@
+import type { CDPSession } from 'puppeteer';
+import type { MemoryAnalysis, MemoryProfile, SamplingHeapProfileNode } from './types';
+import type { SourceMapResolver } from './resolver.js';
+import { logger } from './logger.js';
+
+// Average bytes between two allocation samples, Chrome's default
+const SAMPLING_INTERVAL = 32768;
+const HEAP_POLL_INTERVAL_MS = 100;
+const MAX_TIMELINE_POINTS = 20;
+const MAX_ALLOCATION_SITES = 10;
+
+export interface MemoryRecording {
+  stop(): Promise<MemoryProfile>;
+  dispose(): void;
+}
+
+// Samples allocations by call site, including objects that are garbage collected
+// before the end, and polls the JS heap size until stopped. The heap size after a
+// forced GC at the start and the end tells how much the page retained.
+export async function startMemoryRecording(session: CDPSession): Promise<MemoryRecording> {
+  await session.send('HeapProfiler.enable');
+  await session.send('HeapProfiler.collectGarbage');
+  const retainedBefore = (await session.send('Runtime.getHeapUsage')).usedSize;
+  await session.send('HeapProfiler.startSampling', {
+    samplingInterval: SAMPLING_INTERVAL,
+    includeObjectsCollectedByMajorGC: true,
+    includeObjectsCollectedByMinorGC: true,
+  });
+
+  const startTime = Date.now();
+  const heapUsage: MemoryProfile['heapUsage'] = [];
+  let polling = false;
+  const timer = setInterval(async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const { usedSize, totalSize } = await session.send('Runtime.getHeapUsage');
+      heapUsage.push({ time: Date.now() - startTime, usedSize, totalSize });
+    } catch {
+      // The page may be navigating, the next poll catches up
+    } finally {
+      polling = false;
+    }
+  }, HEAP_POLL_INTERVAL_MS);
+  timer.unref();
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      const { profile } = await session.send('HeapProfiler.stopSampling');
+      await session.send('HeapProfiler.collectGarbage');
+      const retainedAfter = (await session.send('Runtime.getHeapUsage')).usedSize;
+      await session.send('HeapProfiler.disable');
+      return {
+        samplingInterval: SAMPLING_INTERVAL,
+        samplingProfile: profile as MemoryProfile['samplingProfile'],
+        heapUsage,
+        retainedBefore,
+        retainedAfter,
+      };
+    },
+    dispose() {
+      clearInterval(timer);
+    },
+  };
+}
+
+// Bytes allocated per call site, resolved through the source maps, and the heap size over time
+export async function analyzeMemoryProfile(profile: MemoryProfile, resolver: SourceMapResolver): Promise<MemoryAnalysis> {
+  const sites = new Map<string, { callFrame: SamplingHeapProfileNode['callFrame']; selfSize: number }>();
+  const visit = (node: SamplingHeapProfileNode) => {
+    if (node.selfSize > 0) {
+      const { functionName, url, lineNumber, columnNumber } = node.callFrame;
+      const key = `${functionName}|${url}|${lineNumber}|${columnNumber}`;
+      const site = sites.get(key) || { callFrame: node.callFrame, selfSize: 0 };
+      site.selfSize += node.selfSize;
+      sites.set(key, site);
+    }
+    node.children?.forEach(visit);
+  };
+  visit(profile.samplingProfile.head);
+
+  const totalAllocated = Array.from(sites.values()).reduce((sum, site) => sum + site.selfSize, 0);
+  const topSites = Array.from(sites.values())
+    .sort((a, b) => b.selfSize - a.selfSize)
+    .slice(0, MAX_ALLOCATION_SITES);
+  const resolved = await resolver.resolveLocations(topSites.map(site => ({
+    url: site.callFrame.url,
+    line: site.callFrame.lineNumber + 1,
+    column: site.callFrame.columnNumber + 1,
+    originalFunctionName: site.callFrame.functionName,
+  })));
+
+  const usedSizes = profile.heapUsage.map(sample => sample.usedSize);
+  const step = Math.max(1, Math.ceil(profile.heapUsage.length / MAX_TIMELINE_POINTS));
+  const heapUsage = profile.heapUsage.filter((_, index) => index % step === 0);
+  if (profile.heapUsage.length > 0 && heapUsage[heapUsage.length - 1] !== profile.heapUsage[profile.heapUsage.length - 1]) {
+    heapUsage.push(profile.heapUsage[profile.heapUsage.length - 1]);
+  }
+  logger.debug(`Analyzed ${sites.size} allocation sites and ${profile.heapUsage.length} heap size samples`);
+
+  return {
+    total_allocated_bytes: totalAllocated,
+    heap: {
+      initial_bytes: usedSizes[0] || 0,
+      peak_bytes: usedSizes.length > 0 ? Math.max(...usedSizes) : 0,
+      final_bytes: usedSizes[usedSizes.length - 1] || 0,
+      retained_before_bytes: profile.retainedBefore,
+      retained_after_bytes: profile.retainedAfter,
+      retained_growth_bytes: profile.retainedAfter - profile.retainedBefore,
+      duration_ms: profile.heapUsage[profile.heapUsage.length - 1]?.time || 0,
+      timeline: heapUsage.map(sample => ({ time_ms: sample.time, used_bytes: sample.usedSize })),
+    },
+    top_allocations: topSites.map((site, index) => {
+      const location = resolved[index];
+      return {
+        function: site.callFrame.functionName || '(anonymous)',
+        location: site.callFrame.url ? `${site.callFrame.url}:${site.callFrame.lineNumber + 1}` : '(native)',
+        self_size_bytes: site.selfSize,
+        percentage: totalAllocated > 0 ? ((site.selfSize / totalAllocated) * 100).toFixed(2) : '0.00',
+        isSourceMapped: location.isResolved,
+        originalFile: location.isResolved ? location.fullOriginalPath || location.originalFile : undefined,
+        originalLine: location.isResolved ? location.originalLine : undefined,
+        originalName: location.isResolved ? location.originalName : undefined,
+      };
+    }),
+  };
+}
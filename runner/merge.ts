@@ -0,0 +1,167 @@
+import { readFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import type {
+  AggregatedFunction,
+  CPUProfile,
+  CPUProfileNode,
+  FunctionStatistics,
+  MergedProfileStatistics,
+  SourceMapConfig,
+} from './types';
+import CPUProfileAnalyzer from './analyzer.js';
+import { SourceMapResolver } from './resolver.js';
+import { getFunctionIdentity } from './diff.js';
+import { getArtifactPath, loadManifest, resolveArtifactPath } from './runs.js';
+import { standardDeviation } from './stats.js';
+import { logger } from './logger.js';
+
+// Relative standard error of the mean self time below which a function's time is trusted
+const HIGH_CONFIDENCE_ERROR = 0.1;
+const MEDIUM_CONFIDENCE_ERROR = 0.25;
+
+export interface MergedProfile {
+  profile: CPUProfile;
+  statistics: MergedProfileStatistics;
+}
+
+// A path loads one profile, a run ID the profiles of all its iterations
+export async function loadProfiles(reference: string): Promise<CPUProfile[]> {
+  let profilePaths = [reference];
+  if (!existsSync(reference)) {
+    const manifest = await loadManifest(reference);
+    profilePaths = manifest.iterations?.length
+      ? manifest.iterations.map(iteration => resolveArtifactPath(manifest, iteration.artifacts.cpuProfile))
+      : [getArtifactPath(manifest, 'cpuProfile')];
+  }
+  const profiles: CPUProfile[] = [];
+  for (const profilePath of profilePaths) {
+    if (!profilePath || !existsSync(profilePath)) {
+      throw new Error(`CPU profile not found for ${reference}`);
+    }
+    profiles.push(JSON.parse(await readFile(profilePath, 'utf-8')));
+  }
+  return profiles;
+}
+
+// Merge profiles of the same page into one call tree whose frames are matched by
+// their source-mapped identity, so bundles with different content hashes line up.
+// Sample weights are divided by the number of profiles, the merged profile is the
+// mean profile and every report section shows mean times.
+export async function mergeProfiles(profiles: CPUProfile[], sourceMaps?: SourceMapConfig): Promise<MergedProfile> {
+  if (profiles.length === 0) {
+    throw new Error('No CPU profiles to merge');
+  }
+  const root: CPUProfileNode = {
+    id: 1,
+    selfTime: 0,
+    totalTime: 0,
+    parent: null,
+    callFrame: { functionName: '(root)', url: '', lineNumber: -1, columnNumber: -1 },
+    children: [],
+  };
+  const nodes: CPUProfileNode[] = [root];
+  const childByIdentity = new Map<CPUProfileNode, Map<string, CPUProfileNode>>();
+  const samples: number[] = [];
+  const timeDeltas: number[] = [0];
+  const selfTimesByIdentity = new Map<string, { func: AggregatedFunction; selfTimes: number[] }>();
+  const totalTimes: number[] = [];
+
+  // Share one resolver so each source map is parsed once for all profiles
+  const sourceMapResolver = new SourceMapResolver(sourceMaps);
+  try {
+    for (const [index, cpuProfile] of profiles.entries()) {
+      const analyzer = new CPUProfileAnalyzer();
+      analyzer.sourceMapResolver = sourceMapResolver;
+      await analyzer.analyzeCPUProfileData(cpuProfile);
+      const sampledStacks = analyzer.getSampledStacks();
+      const sampledNodes = new Map<number, CPUProfileNode>();
+      sampledStacks.forEach(({ stack }) => stack.forEach(node => sampledNodes.set(node.id, node)));
+      const frames = await analyzer.resolveNodeFrames(Array.from(sampledNodes.values()));
+
+      let totalTime = 0;
+      for (const { stack, weight } of sampledStacks) {
+        let parent = root;
+        for (const node of stack) {
+          const identity = getFunctionIdentity(frames.get(node.id));
+          let children = childByIdentity.get(parent);
+          if (!children) {
+            children = new Map();
+            childByIdentity.set(parent, children);
+          }
+          let child = children.get(identity);
+          if (!child) {
+            child = { id: nodes.length + 1, selfTime: 0, totalTime: 0, parent: null, callFrame: node.callFrame, children: [] };
+            nodes.push(child);
+            children.set(identity, child);
+            parent.children.push(child.id);
+          }
+          parent = child;
+        }
+        samples.push(parent.id);
+        timeDeltas.push(Math.round(weight / profiles.length));
+        totalTime += weight;
+
+        const leaf = frames.get(stack[stack.length - 1].id);
+        const identity = getFunctionIdentity(leaf);
+        let entry = selfTimesByIdentity.get(identity);
+        if (!entry) {
+          entry = { func: leaf, selfTimes: new Array(profiles.length).fill(0) };
+          selfTimesByIdentity.set(identity, entry);
+        }
+        entry.selfTimes[index] += weight;
+      }
+      totalTimes.push(totalTime);
+    }
+  } finally {
+    await sourceMapResolver.destroy();
+  }
+  // A trailing sample closes the time of the last one
+  samples.push(root.id);
+  logger.info(`Merged ${profiles.length} CPU profiles into ${nodes.length} call tree nodes`);
+
+  const toMs = (microseconds: number) => Math.round(microseconds / 100) / 10;
+  const functions: FunctionStatistics[] = Array.from(selfTimesByIdentity.entries()).map(([identity, { func, selfTimes }]) => {
+    const mean = selfTimes.reduce((sum, value) => sum + value, 0) / selfTimes.length;
+    const stdDev = standardDeviation(selfTimes);
+    return {
+      identity,
+      function: func.isSourceMapped ? func.originalName || func.functionName : func.functionName,
+      file: func.isSourceMapped ? func.fullOriginalPath || func.originalFile : func.url,
+      isSourceMapped: !!func.isSourceMapped,
+      meanSelfTime: toMs(mean),
+      variance: Math.round((stdDev / 1000) ** 2 * 100) / 100,
+      stdDev: toMs(stdDev),
+      presentIn: selfTimes.filter(value => value > 0).length,
+      confidence: getConfidence(mean, stdDev, selfTimes.length),
+    };
+  }).sort((a, b) => b.meanSelfTime - a.meanSelfTime);
+
+  const totalTime = profiles.length > 0 ? totalTimes.reduce((sum, value) => sum + value, 0) / profiles.length : 0;
+  return {
+    profile: {
+      nodes,
+      samples,
+      timeDeltas,
+      startTime: 0,
+      endTime: Math.round(totalTime),
+    },
+    statistics: {
+      profileCount: profiles.length,
+      meanTotalTime: toMs(totalTime),
+      totalTimeStdDev: toMs(standardDeviation(totalTimes)),
+      functions,
+    },
+  };
+}
+
+// The standard error of the mean shrinks with more profiles, a single
+// profile says nothing about the spread
+function getConfidence(mean: number, stdDev: number, count: number): FunctionStatistics['confidence'] {
+  if (count < 2 || mean <= 0) {
+    return 'low';
+  }
+  const relativeError = stdDev / Math.sqrt(count) / mean;
+  if (relativeError <= HIGH_CONFIDENCE_ERROR) return 'high';
+  if (relativeError <= MEDIUM_CONFIDENCE_ERROR) return 'medium';
+  return 'low';
+}
@@ -0,0 +1,203 @@
+import type {
+  AggregatedFunction,
+  CPUProfile,
+  CPUProfileNode,
+  ProfileQuery,
+  ProfileQueryResult,
+  QueryFrame,
+  SourceMapConfig,
+} from './types';
+import CPUProfileAnalyzer from './analyzer.js';
+
+const DEFAULT_DEPTH = 4;
+const DEFAULT_LIMIT = 10;
+
+interface Frame {
+  key: string;
+  nodeId: number;
+  name: string;
+  file: string;
+  line: number;
+  isSourceMapped: boolean;
+  names: string[];   // Minified and original name
+  files: string[];   // Script URL and original path
+}
+
+interface TreeNode {
+  frame: Frame;
+  selfTime: number;
+  totalTime: number;
+  children: Map<string, TreeNode>;
+}
+
+// Answers follow-up questions about a profile's call tree: who calls a function and
+// what it calls, or the top-down and bottom-up trees below any node
+export async function queryProfile(
+  cpuProfile: CPUProfile,
+  query: ProfileQuery,
+  sourceMaps?: SourceMapConfig
+): Promise<ProfileQueryResult> {
+  const analyzer = new CPUProfileAnalyzer(sourceMaps);
+  try {
+    await analyzer.analyzeCPUProfileData(cpuProfile);
+    const sampledStacks = analyzer.getSampledStacks();
+    const nodes = new Map<number, CPUProfileNode>();
+    sampledStacks.forEach(({ stack }) => stack.forEach(node => nodes.set(node.id, node)));
+    const resolved = await analyzer.resolveNodeFrames(Array.from(nodes.values()));
+    const frames = new Map(Array.from(resolved.entries()).map(([nodeId, func]) => [nodeId, toFrame(nodeId, func)]));
+    return runQuery(sampledStacks.map(({ stack, weight }) => ({ stack: stack.map(node => frames.get(node.id)), weight })), query);
+  } finally {
+    await analyzer.sourceMapResolver.destroy();
+  }
+}
+
+function runQuery(samples: Array<{ stack: Frame[]; weight: number }>, query: ProfileQuery): ProfileQueryResult {
+  const view = query.view || (query.function || query.file ? 'function' : 'top-down');
+  const depth = query.depth ?? DEFAULT_DEPTH;
+  const limit = query.limit ?? DEFAULT_LIMIT;
+
+  let stacks = samples;
+  if (query.exclude?.length) {
+    stacks = stacks.map(({ stack, weight }) => ({
+      stack: stack.filter(frame => !query.exclude.some(pattern => matchesFrame(frame, pattern))),
+      weight,
+    }));
+  }
+  if (query.focus) {
+    stacks = stacks.map(({ stack, weight }) => {
+      const index = stack.findIndex(frame => matchesFrame(frame, query.focus));
+      return { stack: index >= 0 ? stack.slice(index) : [], weight };
+    });
+  }
+  if (query.nodeId !== undefined) {
+    stacks = stacks.map(({ stack, weight }) => {
+      const index = stack.findIndex(frame => frame.nodeId === query.nodeId);
+      return { stack: index >= 0 ? stack.slice(index) : [], weight };
+    });
+  }
+  stacks = stacks.filter(({ stack }) => stack.length > 0);
+  const totalTime = stacks.reduce((sum, { weight }) => sum + weight, 0);
+
+  if (view === 'top-down' || view === 'bottom-up') {
+    const root = buildTree(stacks.map(({ stack, weight }) => ({
+      path: view === 'top-down' ? stack : [...stack].reverse(),
+      weight,
+    })));
+    // Bottom-up paths start at the sampled frame, all of their time is its self time
+    if (view === 'bottom-up') {
+      forEachTreeNode(root, node => { node.selfTime = node.totalTime; });
+    }
+    return { view, totalTime: toMs(totalTime), tree: toQueryFrames(root, totalTime, depth, limit) };
+  }
+
+  if (!query.function && !query.file) {
+    throw new Error('The function view needs a function name or a file');
+  }
+  const isTarget = (frame: Frame) =>
+    (!query.function || frame.names.includes(query.function))
+    && (!query.file || frame.files.some(file => file.includes(query.file)));
+
+  // Time enters the target at its outermost frame and leaves it at the first
+  // frame after that which isn't part of it, so recursion is counted once
+  const matches = new Map<string, Frame>();
+  const callerPaths: Array<{ path: Frame[]; weight: number }> = [];
+  const calleePaths: Array<{ path: Frame[]; weight: number }> = [];
+  let selfTime = 0;
+  let targetTime = 0;
+  for (const { stack, weight } of stacks) {
+    const start = stack.findIndex(isTarget);
+    if (start < 0) continue;
+    let end = start;
+    while (end + 1 < stack.length && isTarget(stack[end + 1])) end++;
+    stack.filter(isTarget).forEach(frame => matches.set(frame.key, frame));
+    targetTime += weight;
+    if (isTarget(stack[stack.length - 1])) selfTime += weight;
+    if (start > 0) callerPaths.push({ path: [stack[start - 1]], weight });
+    if (end + 1 < stack.length) calleePaths.push({ path: stack.slice(end + 1), weight });
+  }
+
+  const callers = buildTree(callerPaths);
+  const callees = buildTree(calleePaths);
+  return {
+    view,
+    totalTime: toMs(totalTime),
+    target: {
+      matches: Array.from(matches.values()).map(frame => `${frame.name} (${frame.file}:${frame.line})`),
+      selfTime: toMs(selfTime),
+      totalTime: toMs(targetTime),
+      callers: toQueryFrames(callers, targetTime, 1, limit),
+      callees: toQueryFrames(callees, targetTime, 1, limit),
+    },
+  };
+}
+
+function toFrame(nodeId: number, func: AggregatedFunction): Frame {
+  const name = func.isSourceMapped ? func.originalName || func.functionName : func.functionName;
+  const file = func.isSourceMapped ? func.fullOriginalPath || func.originalFile : func.url;
+  const line = func.isSourceMapped ? func.originalLine : func.lineNumber;
+  return {
+    key: `${name}|${file}|${line}`,
+    nodeId,
+    name,
+    file,
+    line,
+    isSourceMapped: !!func.isSourceMapped,
+    names: [func.functionName, name],
+    files: [func.url, file].filter(Boolean),
+  };
+}
+
+// Names match exactly, files by part of their path or URL
+function matchesFrame(frame: Frame, pattern: string): boolean {
+  return frame.names.includes(pattern) || frame.files.some(file => file.includes(pattern));
+}
+
+// Merge the paths into a tree, every node on a path gets its weight and the last one its self time
+function buildTree(paths: Array<{ path: Frame[]; weight: number }>): TreeNode {
+  const root: TreeNode = { frame: null, selfTime: 0, totalTime: 0, children: new Map() };
+  for (const { path, weight } of paths) {
+    root.totalTime += weight;
+    let node = root;
+    for (const frame of path) {
+      let child = node.children.get(frame.key);
+      if (!child) {
+        child = { frame, selfTime: 0, totalTime: 0, children: new Map() };
+        node.children.set(frame.key, child);
+      }
+      child.totalTime += weight;
+      node = child;
+    }
+    node.selfTime += weight;
+  }
+  return root;
+}
+
+function forEachTreeNode(node: TreeNode, callback: (node: TreeNode) => void) {
+  node.children.forEach(child => {
+    callback(child);
+    forEachTreeNode(child, callback);
+  });
+}
+
+function toQueryFrames(node: TreeNode, totalTime: number, depth: number, limit: number): QueryFrame[] {
+  return Array.from(node.children.values())
+    .sort((a, b) => b.totalTime - a.totalTime)
+    .slice(0, limit)
+    .map(child => ({
+      nodeId: child.frame.nodeId,
+      name: child.frame.name,
+      file: child.frame.file,
+      line: child.frame.line,
+      isSourceMapped: child.frame.isSourceMapped,
+      selfTime: toMs(child.selfTime),
+      totalTime: toMs(child.totalTime),
+      percentage: totalTime > 0 ? ((child.totalTime / totalTime) * 100).toFixed(2) : '0.00',
+      ...(depth > 1 && child.children.size > 0
+        ? { children: toQueryFrames(child, totalTime, depth - 1, limit) }
+        : {}),
+    }));
+}
+
+function toMs(microseconds: number): number {
+  return Math.round(microseconds / 100) / 10;
+}
@@ -1,7 +1,9 @@
 import { SourceMapConsumer } from 'source-map';
-import { readFile } from 'node:fs/promises';
+import { readFile, readdir } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
 import * as path from 'node:path';
+import { logger } from './logger.js';
+import type { SourceMapConfig, SourceMapLookup, SourceSnippet } from './types';
 
 export interface Location {
   url: string,
@@ -21,136 +23,344 @@ export interface ResolvedLocation {
   sourceMapUrl?: string;
 }
 
+const DEFAULT_LOOKUP_ORDER: SourceMapLookup[] = ['rewrite', 'directory', 'network'];
+const DEFAULT_SNIPPET_CONTEXT = 3;
+const MAX_SNIPPET_LINE_LENGTH = 160;
+
+// Reads a source map lookup config, relative directories are resolved against the config file
+export async function loadSourceMapConfig(configPath: string): Promise<SourceMapConfig> {
+  if (!existsSync(configPath)) {
+    throw new Error(`Source map config not found: ${configPath}`);
+  }
+  const config: SourceMapConfig = JSON.parse(await readFile(configPath, 'utf-8'));
+  const baseDir = path.dirname(path.resolve(configPath));
+  return {
+    ...config,
+    rewrites: config.rewrites?.map(rewrite => ({ ...rewrite, directory: path.resolve(baseDir, rewrite.directory) })),
+    mapDirectories: config.mapDirectories?.map(directory => path.resolve(baseDir, directory)),
+  };
+}
+
+// Bundles whose maps are loaded at the same time, each parsed map can take
+// hundreds of megabytes of WASM memory for large vendor bundles
+const MAX_CONCURRENT_BUNDLES = 4;
+
+interface LoadedSourceMap {
+  url: string;
+  consumer: SourceMapConsumer;
+}
+
 export class SourceMapResolver {
-  private sourceMapCache = new Map<string, { url: string | null, map: SourceMapConsumer | null }>();
+  // One parsed map per bundle for the lifetime of the resolver, released by destroy()
+  private sourceMapCache = new Map<string, Promise<LoadedSourceMap | null>>();
   private fileContentsCache = new Map<string, string>();
   private locationsMap = new Map<string, ResolvedLocation>();
+  private mapIndex: Promise<{ byFileName: Map<string, string>, byDebugId: Map<string, string> }> | null = null;
+
+  constructor(private config: SourceMapConfig = {}) { }
 
   async resolveLocation(url: string, line: number = 1, column: number = 1, originalFunctionName?: string): Promise<ResolvedLocation> {
+    const sourceMap = await this.getSourceMap(url);
+    return this.lookup(sourceMap, { url, line, column, originalFunctionName });
+  }
+
+  // Locations are grouped by bundle so each map is loaded once and queried for all of
+  // its locations, with a bounded number of bundles in flight
+  async resolveLocations(locations: Location[]): Promise<ResolvedLocation[]> {
+    const results: ResolvedLocation[] = new Array(locations.length);
+    const indexesByUrl = new Map<string, number[]>();
+    locations.forEach((loc, index) => {
+      if ((!loc.line || !loc.column) && this.locationsMap.has(loc.url)) {
+        results[index] = this.locationsMap.get(loc.url)!;
+        return;
+      }
+      const indexes = indexesByUrl.get(loc.url) || [];
+      indexes.push(index);
+      indexesByUrl.set(loc.url, indexes);
+    });
+
+    await forEachWithConcurrency(Array.from(indexesByUrl.entries()), MAX_CONCURRENT_BUNDLES, async ([url, indexes]) => {
+      const sourceMap = await this.getSourceMap(url);
+      for (const index of indexes) {
+        const loc = locations[index];
+        results[index] = this.lookup(sourceMap, { ...loc, line: loc.line || 1, column: loc.column || 1 });
+        this.locationsMap.set(loc.url, results[index]);
+      }
+    });
+    return results;
+  }
+
+  // The original code around a resolved location, null when the map doesn't embed its sources
+  async getSourceSnippet(minifiedUrl: string, source: string, line: number): Promise<SourceSnippet | null> {
+    const context = this.config.snippetContext ?? DEFAULT_SNIPPET_CONTEXT;
+    if (context <= 0) {
+      return null;
+    }
+    const sourceMap = await this.getSourceMap(minifiedUrl);
+    const content = sourceMap?.consumer.sourceContentFor(source, true);
+    if (!content) {
+      return null;
+    }
+    const sourceLines = content.split(/\r?\n/);
+    if (line < 1 || line > sourceLines.length) {
+      return null;
+    }
+    const startLine = Math.max(1, line - context);
+    const endLine = Math.min(sourceLines.length, line + context);
+    return {
+      file: source,
+      startLine,
+      highlightLine: line,
+      lines: sourceLines.slice(startLine - 1, endLine).map(sourceLine =>
+        sourceLine.length > MAX_SNIPPET_LINE_LENGTH ? `${sourceLine.slice(0, MAX_SNIPPET_LINE_LENGTH)}…` : sourceLine
+      ),
+    };
+  }
+
+  // Visits the generated position and original source of every mapping of a bundle in
+  // generated order, false when the bundle has no source map
+  async eachMapping(url: string, callback: (line: number, column: number, source: string | null) => void): Promise<boolean> {
+    const sourceMap = await this.getSourceMap(url);
+    if (!sourceMap) {
+      return false;
+    }
+    sourceMap.consumer.eachMapping(
+      mapping => callback(mapping.generatedLine, mapping.generatedColumn, mapping.source),
+      null,
+      SourceMapConsumer.GENERATED_ORDER
+    );
+    return true;
+  }
+
+  // Releases the parsed maps, the resolver can still be used afterwards but parses them again
+  async destroy(): Promise<void> {
+    const sourceMaps = await Promise.all(this.sourceMapCache.values());
+    for (const sourceMap of sourceMaps) {
+      sourceMap?.consumer.destroy();
+    }
+    this.sourceMapCache.clear();
+    this.fileContentsCache.clear();
+    this.locationsMap.clear();
+  }
+
+  private lookup(sourceMap: LoadedSourceMap | null, loc: Location): ResolvedLocation {
     const defaultResult: ResolvedLocation = {
-      originalFile: url,
-      originalLine: line,
-      originalColumn: column,
+      originalFile: loc.url,
+      originalLine: loc.line,
+      originalColumn: loc.column,
       originalName: null,
       isResolved: false,
-      minifiedUrl: url
+      minifiedUrl: loc.url
     };
+    if (!sourceMap) {
+      return defaultResult;
+    }
 
     try {
-      if (!this.isMinifiedJavaScript(url)) {
-        return defaultResult;
-      }
-
-      const sourceMapData = await this.retrieveSourceMap(url);
-      if (!sourceMapData) {
-        return defaultResult;
-      }
-
-      const sourceMap = await new SourceMapConsumer(sourceMapData.map);
-      const originalPosition = sourceMap.originalPositionFor({ line, column });
-
+      const originalPosition = sourceMap.consumer.originalPositionFor({ line: loc.line, column: loc.column });
       if (originalPosition.source) {
-        let functionName = originalPosition.name || originalFunctionName;
         return {
           originalFile: this.cleanSourcePath(originalPosition.source),
-          originalLine: originalPosition.line || line,
-          originalColumn: originalPosition.column || column,
-          originalName: functionName,
+          originalLine: originalPosition.line || loc.line,
+          originalColumn: originalPosition.column || loc.column,
+          originalName: originalPosition.name || loc.originalFunctionName,
           isResolved: true,
-          minifiedUrl: url,
+          minifiedUrl: loc.url,
           fullOriginalPath: originalPosition.source,
-          sourceMapUrl: sourceMapData.url
+          sourceMapUrl: sourceMap.url
         };
       }
-
-      return defaultResult;
     } catch (error) {
-      console.warn(`Failed to resolve source map for ${url}:`, error);
-      return defaultResult;
+      logger.warn(`Failed to resolve source map for ${loc.url}:`, error);
     }
+    return defaultResult;
   }
 
-  async resolveLocations(locations: Location[]): Promise<ResolvedLocation[]> {
-    return Promise.all(
-      locations.map(async loc => {
-        try {
-          if ((!loc.line || !loc.column) && this.locationsMap.has(loc.url)) {
-            return this.locationsMap.get(loc.url);
-          }
-          const resolvedLocation = await this.resolveLocation(loc.url, loc.line, loc.column, loc.originalFunctionName);
-          this.locationsMap.set(loc.url, resolvedLocation);
-          return resolvedLocation;
-        } catch (e) {
-          console.error(`Failed to resolve location for ${loc.url}:`, e);
-          return {
-            originalFile: loc.url,
-            originalLine: loc.line,
-            originalColumn: loc.column,
-            originalName: null,
-            isResolved: false,
-            minifiedUrl: loc.url
-          };
-        }
-      })
-    );
+  // Concurrent lookups for the same bundle share the pending load
+  private getSourceMap(url: string): Promise<LoadedSourceMap | null> {
+    let sourceMap = this.sourceMapCache.get(url);
+    if (!sourceMap) {
+      sourceMap = this.loadSourceMap(url);
+      this.sourceMapCache.set(url, sourceMap);
+    }
+    return sourceMap;
   }
 
-  private async retrieveSourceMap(source: string): Promise<{ url: string, map: any } | null> {
-    // Check cache first
-    if (this.sourceMapCache.has(source)) {
-      const cached = this.sourceMapCache.get(source)!;
-      if (cached.map) {
-        return { url: cached.url!, map: cached.map };
+  private async loadSourceMap(source: string): Promise<LoadedSourceMap | null> {
+    try {
+      if (!this.isMinifiedJavaScript(source) && !(await this.hasLocalSourceMap(source))) {
+        return null;
+      }
+
+      let sourceMap: { url: string, data: string } | null = null;
+      for (const lookup of this.config.order || DEFAULT_LOOKUP_ORDER) {
+        if (lookup === 'rewrite') {
+          sourceMap = await this.retrieveRewrittenSourceMap(source);
+        } else if (lookup === 'directory') {
+          sourceMap = await this.retrieveIndexedSourceMap(source);
+        } else if (lookup === 'network') {
+          sourceMap = await this.retrieveNetworkSourceMap(source);
+        }
+        if (sourceMap) break;
+      }
+
+      if (!sourceMap?.data) {
+        return null;
       }
+
+      const consumer = await new SourceMapConsumer(JSON.parse(sourceMap.data));
+      // The parsed map replaces the raw JSON, which can be several megabytes
+      this.fileContentsCache.delete(sourceMap.url);
+      return { url: sourceMap.url, consumer };
+    } catch (error) {
+      logger.warn(`Failed to load source map for ${source}:`, error.message);
+      return null;
     }
+  }
 
+  // The map referenced by the bundle (or its SourceMap header) on the live site
+  private async retrieveNetworkSourceMap(source: string): Promise<{ url: string, data: string } | null> {
     const sourceMappingURL = await this.retrieveSourceMapURL(source);
     if (!sourceMappingURL) {
-      this.sourceMapCache.set(source, { url: null, map: null });
       return null;
     }
+    if (sourceMappingURL.startsWith('data:application/json')) {
+      return { url: source, data: this.decodeDataUrl(sourceMappingURL) };
+    }
+    const sourceMapUrl = this.resolveUrl(source, sourceMappingURL);
+    const content = await this.retrieveFile(sourceMapUrl);
+    return content ? { url: sourceMapUrl, data: content } : null;
+  }
 
-    let sourceMapData: string;
-    let sourceMapUrl = sourceMappingURL;
+  // The bundle's copy in a local build directory, with the map it references or <bundle>.map next to it
+  private async retrieveRewrittenSourceMap(source: string): Promise<{ url: string, data: string } | null> {
+    const localPath = this.rewriteUrl(source);
+    if (!localPath) {
+      return null;
+    }
+    const content = await this.retrieveFile(localPath);
+    const sourceMappingURL = content ? this.findSourceMappingURL(content) : null;
+    if (sourceMappingURL?.startsWith('data:application/json')) {
+      return { url: localPath, data: this.decodeDataUrl(sourceMappingURL) };
+    }
+    const candidates = [
+      sourceMappingURL && (this.rewriteUrl(sourceMappingURL) || this.resolveUrl(localPath, sourceMappingURL)),
+      `${localPath}.map`,
+    ];
+    for (const candidate of candidates) {
+      if (!candidate || candidate.startsWith('http')) continue;
+      const data = await this.retrieveFile(candidate);
+      if (data) {
+        return { url: candidate, data };
+      }
+    }
+    return null;
+  }
 
-    if (sourceMappingURL.startsWith('data:application/json')) {
-      const base64Match = sourceMappingURL.match(/base64,(.+)$/);
-      if (base64Match) {
-        sourceMapData = Buffer.from(base64Match[1], 'base64').toString();
-        sourceMapUrl = source;
-      } else {
-        const jsonMatch = sourceMappingURL.match(/,(.+)$/);
-        sourceMapData = jsonMatch ? decodeURIComponent(jsonMatch[1]) : '';
-        sourceMapUrl = source;
+  // A map from the configured directories, matched by the bundle's debug ID or its file name
+  private async retrieveIndexedSourceMap(source: string): Promise<{ url: string, data: string } | null> {
+    if (!this.config.mapDirectories?.length) {
+      return null;
+    }
+    const index = await this.getMapIndex();
+    const debugId = await this.findDebugId(source);
+    const mapPath = (debugId && index.byDebugId.get(debugId)) || index.byFileName.get(this.getBundleFileName(source));
+    if (!mapPath) {
+      return null;
+    }
+    const data = await this.retrieveFile(mapPath);
+    return data ? { url: mapPath, data } : null;
+  }
+
+  private getMapIndex() {
+    if (!this.mapIndex) {
+      this.mapIndex = this.buildMapIndex();
+    }
+    return this.mapIndex;
+  }
+
+  private async buildMapIndex() {
+    const byFileName = new Map<string, string>();
+    const byDebugId = new Map<string, string>();
+    const visit = async (directory: string) => {
+      let entries;
+      try {
+        entries = await readdir(directory, { withFileTypes: true });
+      } catch (error) {
+        logger.warn(`Cannot read source map directory ${directory}:`, error.message);
+        return;
       }
-    } else {
-      sourceMapUrl = this.resolveUrl(source, sourceMappingURL);
-      const content = await this.retrieveFile(sourceMapUrl);
-      if (!content) {
-        this.sourceMapCache.set(source, { url: null, map: null });
-        return null;
+      for (const entry of entries) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          await visit(entryPath);
+        } else if (entry.name.endsWith('.map')) {
+          const content = await readFile(entryPath, 'utf-8');
+          const debugId = content.match(/"debug_?[iI]d"\s*:\s*"([0-9a-fA-F-]+)"/)?.[1];
+          if (debugId) {
+            byDebugId.set(debugId.toLowerCase(), entryPath);
+          }
+          const file = content.match(/"file"\s*:\s*"([^"]+)"/)?.[1];
+          const fileName = entry.name.slice(0, -'.map'.length);
+          if (!byFileName.has(fileName)) byFileName.set(fileName, entryPath);
+          if (file && !byFileName.has(path.basename(file))) byFileName.set(path.basename(file), entryPath);
+        }
       }
-      sourceMapData = content;
+    };
+    for (const directory of this.config.mapDirectories || []) {
+      await visit(directory);
     }
+    logger.info(`Indexed ${byFileName.size} source maps (${byDebugId.size} with a debug ID)`);
+    return { byFileName, byDebugId };
+  }
 
-    if (!sourceMapData) {
-      this.sourceMapCache.set(source, { url: null, map: null });
-      return null;
+  // Debug IDs are read from the bundle, which is only fetched when network lookups are allowed
+  private async findDebugId(source: string): Promise<string | null> {
+    const localPath = this.rewriteUrl(source);
+    let content = localPath ? await this.retrieveFile(localPath) : null;
+    if (!content && (this.config.order || DEFAULT_LOOKUP_ORDER).includes('network')) {
+      content = await this.retrieveFile(source);
     }
+    const match = content?.match(/\/\/# debugId=([0-9a-fA-F-]+)\s*$/m);
+    return match ? match[1].toLowerCase() : null;
+  }
 
-    try {
-      const parsedMap = JSON.parse(sourceMapData);
-      const consumer = await new SourceMapConsumer(parsedMap);
-      this.sourceMapCache.set(source, { url: sourceMapUrl, map: consumer });
-      return {
-        url: sourceMapUrl,
-        map: parsedMap
-      };
-    } catch (error) {
-      console.warn(`Failed to parse source map for ${source}:`, error.message);
-      this.sourceMapCache.set(source, { url: null, map: null });
+  private rewriteUrl(url: string): string | null {
+    const rewrites = [...(this.config.rewrites || [])].sort((a, b) => b.prefix.length - a.prefix.length);
+    const cleanUrl = url.replace(/[?#].*$/, '');
+    const rewrite = rewrites.find(rewrite => cleanUrl.startsWith(rewrite.prefix));
+    if (!rewrite) {
       return null;
     }
+    return path.join(rewrite.directory, decodeURIComponent(cleanUrl.slice(rewrite.prefix.length)));
+  }
+
+  private getBundleFileName(url: string): string {
+    return path.basename(url.replace(/[?#].*$/, ''));
+  }
+
+  // Bundles that aren't recognized as minified are still resolved when a local map is configured for them
+  private async hasLocalSourceMap(url: string): Promise<boolean> {
+    if (!url) {
+      return false;
+    }
+    if (this.rewriteUrl(url)) {
+      return true;
+    }
+    if (!this.config.mapDirectories?.length) {
+      return false;
+    }
+    const index = await this.getMapIndex();
+    return index.byFileName.has(this.getBundleFileName(url));
+  }
+
+  private decodeDataUrl(dataUrl: string): string {
+    const base64Match = dataUrl.match(/base64,(.+)$/);
+    if (base64Match) {
+      return Buffer.from(base64Match[1], 'base64').toString();
+    }
+    const jsonMatch = dataUrl.match(/,(.+)$/);
+    return jsonMatch ? decodeURIComponent(jsonMatch[1]) : '';
   }
 
   private async retrieveSourceMapURL(source: string): Promise<string | null> {
@@ -162,12 +372,17 @@ export class SourceMapResolver {
       return result.sourceMapUrl;
     }
 
-    // Fallback to sourceMappingURL comment (find the last one)
+    // Fallback to sourceMappingURL comment
+    return this.findSourceMappingURL(result.content);
+  }
+
+  // The last sourceMappingURL comment of a bundle
+  private findSourceMappingURL(content: string): string | null {
     const re = /(?:\/\/[@#]\s*sourceMappingURL=([^\s'"]+)\s*$)|(?:\/\*[@#]\s*sourceMappingURL=([^\s*'"]+)\s*(?:\*\/)\s*$)/gm;
     let lastMatch: RegExpExecArray | null = null;
     let match: RegExpExecArray | null;
 
-    while ((match = re.exec(result.content))) {
+    while ((match = re.exec(content))) {
       lastMatch = match;
     }
 
@@ -270,3 +485,13 @@ export class SourceMapResolver {
     return sourcePath;
   }
 }
+
+async function forEachWithConcurrency<T>(items: T[], concurrency: number, callback: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await callback(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+}
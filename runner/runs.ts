@@ -0,0 +1,210 @@
+import { randomBytes } from 'node:crypto';
+import { readFile, readdir, writeFile, mkdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import type { FlamegraphFormat, RunArtifacts, RunManifest, StepArtifacts } from './types';
+import { logger } from './logger.js';
+
+// Output directory for audit results, every run gets its own sub directory
+export const outputDir = join(process.cwd(), 'results');
+
+export const MANIFEST_FILE = 'manifest.json';
+
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function createRunId(date = new Date()): string {
+  const timestamp = date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `${timestamp}-${randomBytes(3).toString('hex')}`;
+}
+
+export function getRunDir(runId: string): string {
+  if (!RUN_ID_PATTERN.test(runId)) {
+    throw new Error(`Invalid run ID: ${runId}`);
+  }
+  return join(outputDir, runId);
+}
+
+export async function createRunDir(runId: string): Promise<string> {
+  const runDir = getRunDir(runId);
+  await mkdir(runDir, { recursive: true });
+  return runDir;
+}
+
+export async function writeManifest(manifest: RunManifest): Promise<string> {
+  const manifestPath = join(getRunDir(manifest.runId), MANIFEST_FILE);
+  await writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+  return manifestPath;
+}
+
+export async function loadManifest(runId: string): Promise<RunManifest> {
+  const manifestPath = join(getRunDir(runId), MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    throw new Error(`No audit run found with ID: ${runId}`);
+  }
+  return JSON.parse(await readFile(manifestPath, 'utf-8'));
+}
+
+// Newest runs first, directories without a manifest are skipped
+export async function listRuns(): Promise<RunManifest[]> {
+  if (!existsSync(outputDir)) {
+    return [];
+  }
+  const entries = await readdir(outputDir, { withFileTypes: true });
+  const manifests: RunManifest[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !RUN_ID_PATTERN.test(entry.name)) continue;
+    const manifestPath = join(outputDir, entry.name, MANIFEST_FILE);
+    if (!existsSync(manifestPath)) continue;
+    try {
+      manifests.push(JSON.parse(await readFile(manifestPath, 'utf-8')));
+    } catch (error) {
+      logger.warn(`Skipping unreadable manifest ${manifestPath}:`, error.message);
+    }
+  }
+  return manifests.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+// Artifact paths in the manifest are relative to the run directory
+export function getArtifactPath(manifest: RunManifest, artifact: Exclude<keyof RunArtifacts, 'steps'>): string | undefined {
+  return resolveArtifactPath(manifest, manifest.artifacts[artifact]);
+}
+
+export function resolveArtifactPath(manifest: RunManifest, relativePath?: string): string | undefined {
+  return relativePath ? join(getRunDir(manifest.runId), relativePath) : undefined;
+}
+
+export async function findManifestForArtifact(artifactPath: string): Promise<RunManifest | null> {
+  const manifestPath = join(dirname(artifactPath), MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    return null;
+  }
+  return JSON.parse(await readFile(manifestPath, 'utf-8'));
+}
+
+// The run and flow step that saved a CPU profile, null for profiles outside the results directory
+export async function findRunOfProfile(profilePath: string): Promise<{ runId: string; step?: number } | null> {
+  const target = resolve(profilePath);
+  const [runId] = relative(outputDir, target).split(sep);
+  if (!runId || !RUN_ID_PATTERN.test(runId) || !existsSync(join(outputDir, runId, MANIFEST_FILE))) {
+    return null;
+  }
+  const manifest = await loadManifest(runId);
+  if (getArtifactPath(manifest, 'cpuProfile') === target) {
+    return { runId };
+  }
+  const step = (manifest.artifacts.steps || []).findIndex(step => resolveArtifactPath(manifest, step.cpuProfile) === target);
+  return step >= 0 ? { runId, step: step + 1 } : null;
+}
+
+// Stable URIs of the artifacts of a run, independent of where the results directory is
+export const RUN_URI_PREFIX = 'webperf://runs/';
+
+export type RunResource = 'report' | 'cpu-profile' | 'trace' | 'analysis' | 'flamegraph';
+
+const RUN_URI_PATTERN = /^webperf:\/\/runs\/([A-Za-z0-9_-]+)(?:\/steps\/(\d+))?(?:\/(report|cpu-profile|trace|analysis)|\/(flamegraph)(?:\/(speedscope|folded|svg))?)?\/?$/;
+
+// Flamegraphs are rendered from the CPU profile, the format defaults to svg
+export function getRunUri(runId: string, resource?: RunResource, step?: number, format?: FlamegraphFormat): string {
+  const path = resource === 'flamegraph' && format ? `${resource}/${format}` : resource;
+  return `${RUN_URI_PREFIX}${runId}${step ? `/steps/${step}` : ''}${path ? `/${path}` : ''}`;
+}
+
+export function isRunUri(value?: string): boolean {
+  return !!value && value.startsWith(RUN_URI_PREFIX);
+}
+
+// Steps are 1-based like their directories
+export function parseRunUri(uri: string): { runId: string; resource?: RunResource; step?: number; format?: FlamegraphFormat } {
+  const match = uri.match(RUN_URI_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid run URI: ${uri}, expected ${RUN_URI_PREFIX}<runId>[/steps/<n>]/(report|cpu-profile|trace|analysis|flamegraph[/<format>])`);
+  }
+  const [, runId, step, artifact, flamegraph, format] = match;
+  return {
+    runId,
+    resource: (artifact || flamegraph) as RunResource,
+    step: step ? parseInt(step, 10) : undefined,
+    format: flamegraph ? (format as FlamegraphFormat) || 'svg' : undefined,
+  };
+}
+
+// Local path of the artifact a run URI points to
+export async function resolveRunUri(uri: string): Promise<string> {
+  const { runId, resource, step } = parseRunUri(uri);
+  const manifest = await loadManifest(runId);
+  const artifacts = step ? manifest.artifacts.steps?.[step - 1] : manifest.artifacts;
+  if (!artifacts) {
+    throw new Error(`Run ${runId} has no step ${step}`);
+  }
+  const artifactPaths: Partial<Record<RunResource, string | undefined>> = {
+    'report': 'report' in artifacts ? artifacts.report : undefined,
+    'cpu-profile': artifacts.cpuProfile,
+    'trace': artifacts.traceEvents,
+  };
+  const artifactPath = resolveArtifactPath(manifest, artifactPaths[resource]);
+  if (!artifactPath) {
+    throw new Error(`${uri} does not point to a saved artifact`);
+  }
+  return artifactPath;
+}
+
+export interface AnalysisInputs {
+  cpuProfilePath: string;
+  traceEventsPath?: string;
+  memoryProfilePath?: string;
+  coveragePath?: string;
+  reportPath?: string;
+  steps?: Array<{
+    name: string;
+    mode: StepArtifacts['mode'];
+    cpuProfilePath?: string;
+    traceEventsPath?: string;
+  }>;
+}
+
+// Find the artifacts that belong together, either from a run ID or from
+// the manifest that sits next to an explicitly given CPU profile
+export async function resolveAnalysisInputs(options: {
+  runId?: string;
+  cpuProfilePath?: string;
+  traceEventsPath?: string;
+}): Promise<AnalysisInputs> {
+  // Run URIs can stand in for the run ID and the artifact paths
+  const runId = isRunUri(options.runId) ? parseRunUri(options.runId).runId : options.runId;
+  const cpuProfilePath = isRunUri(options.cpuProfilePath) ? await resolveRunUri(options.cpuProfilePath) : options.cpuProfilePath;
+  const traceEventsPath = isRunUri(options.traceEventsPath) ? await resolveRunUri(options.traceEventsPath) : options.traceEventsPath;
+
+  if (runId) {
+    const manifest = await loadManifest(runId);
+    const profilePath = cpuProfilePath || getArtifactPath(manifest, 'cpuProfile');
+    if (!profilePath) {
+      throw new Error(`Run ${runId} has no CPU profile, re-run the audit with profiling enabled`);
+    }
+    return {
+      cpuProfilePath: profilePath,
+      traceEventsPath: traceEventsPath || getArtifactPath(manifest, 'traceEvents'),
+      memoryProfilePath: getArtifactPath(manifest, 'memoryProfile'),
+      coveragePath: getArtifactPath(manifest, 'coverage'),
+      reportPath: getArtifactPath(manifest, 'report'),
+      steps: manifest.artifacts.steps?.map(step => ({
+        name: step.name,
+        mode: step.mode,
+        cpuProfilePath: resolveArtifactPath(manifest, step.cpuProfile),
+        traceEventsPath: resolveArtifactPath(manifest, step.traceEvents),
+      })),
+    };
+  }
+
+  if (!cpuProfilePath) {
+    throw new Error('Either a run ID or a CPU profile path is required');
+  }
+
+  const manifest = await findManifestForArtifact(cpuProfilePath);
+  return {
+    cpuProfilePath,
+    traceEventsPath: traceEventsPath || (manifest ? getArtifactPath(manifest, 'traceEvents') : undefined),
+    memoryProfilePath: manifest ? getArtifactPath(manifest, 'memoryProfile') : undefined,
+    coveragePath: manifest ? getArtifactPath(manifest, 'coverage') : undefined,
+    reportPath: manifest ? getArtifactPath(manifest, 'report') : undefined,
+  };
+}
@@ -0,0 +1,571 @@
+import type {
+  AnalysisResult,
+  AuditResult,
+  AuditStepResult,
+  CoverageAnalysis,
+  CoverageResult,
+  CoverageUsage,
+  CoverageUsageResult,
+  CPUProfileAnalysis,
+  FunctionResult,
+  InteractionAnalysis,
+  InteractionResult,
+  MainThreadResult,
+  MemoryAnalysis,
+  MemoryResult,
+  MetricRating,
+  PerformanceMetrics,
+  ProfileResult,
+  TraceAnalysis,
+} from './types';
+import type { RunAnalysis } from './analysis.js';
+
+// Bump the major version when a field is removed or changes meaning,
+// the minor version when fields are added
+export const RESULT_SCHEMA_VERSION = '2.0';
+
+const VITALS = ['fcp', 'lcp', 'cls', 'ttfb', 'tbt', 'inp'] as const;
+
+export function toAuditResult(report: PerformanceMetrics): AuditResult {
+  const summary = toStepResult(report);
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    kind: 'audit',
+    runId: report.runId || null,
+    url: report.url,
+    timestamp: report.timestamp,
+    ...summary,
+    longTasks: {
+      ...summary.longTasks,
+      items: getLongTaskItems(report).map(task => ({
+        url: task.url,
+        startTimeMs: round(task.startTime),
+        durationMs: round(task.duration),
+      })),
+    },
+    aggregate: report.aggregate || null,
+    budget: report.budget || null,
+    steps: (report.steps || []).map(step => ({ name: step.name, mode: step.mode, ...toStepResult(step) })),
+  };
+}
+
+export function toAnalysisResult(analysis: RunAnalysis): AnalysisResult {
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    kind: 'analysis',
+    runId: analysis.auditReport?.runId || null,
+    audit: analysis.auditReport ? toAuditResult(analysis.auditReport) : null,
+    profile: toProfileResult(analysis.cpuReport),
+    steps: (analysis.steps || []).map(step => ({
+      name: step.name,
+      mode: step.mode,
+      profile: step.analysis ? toProfileResult(step.analysis) : null,
+    })),
+  };
+}
+
+function toStepResult(report: Omit<PerformanceMetrics, 'steps'>): Omit<AuditStepResult, 'name' | 'mode'> {
+  const metrics: AuditStepResult['metrics'] = {};
+  for (const key of VITALS) {
+    const metric: MetricRating | undefined = report.coreWebVitals?.[key];
+    metrics[key] = metric ? { value: metric.value, rating: metric.rating } : null;
+  }
+  const longTaskItems = getLongTaskItems(report);
+  return {
+    performanceScore: typeof report.performanceScore === 'number' ? report.performanceScore : null,
+    metrics,
+    longTasks: {
+      count: longTaskItems.length,
+      totalDurationMs: round(longTaskItems.reduce((sum, task) => sum + task.duration, 0)),
+    },
+  };
+}
+
+function getLongTaskItems(report: Omit<PerformanceMetrics, 'steps'>): any[] {
+  return (report.longTasks?.details as any)?.items || [];
+}
+
+function toProfileResult(report: CPUProfileAnalysis): ProfileResult {
+  return {
+    totalExecutionTimeMs: report.executive_summary.total_execution_time_ms,
+    totalSamples: report.executive_summary.total_samples,
+    sampleIntervalMs: report.executive_summary.sample_interval_ms,
+    functions: report.high_impact_functions.map((func): FunctionResult => ({
+      name: func.function,
+      file: func.file,
+      location: func.location,
+      selfTimeMs: func.execution_time_ms,
+      cpuPercentage: parseFloat(func.cpu_percentage),
+      callCount: func.call_count,
+      original: func.isSourceMapped && func.originalFile
+        ? {
+          file: func.fullOriginalPath || func.originalFile,
+          line: func.originalLine,
+          column: func.originalColumn,
+          name: func.originalName || null,
+        }
+        : null,
+      stackTrace: func.resolvedStackTrace ? func.resolvedStackTrace.split('\n') : [],
+    })),
+    mainThread: report.trace_analysis ? toMainThreadResult(report.trace_analysis) : null,
+    interactions: (report.interactions || []).map(toInteractionResult),
+    attribution: report.attribution || null,
+    statistics: report.statistics || null,
+    memory: report.memory_analysis ? toMemoryResult(report.memory_analysis) : null,
+    coverage: report.coverage_analysis ? toCoverageResult(report.coverage_analysis) : null,
+  };
+}
+
+function toMainThreadResult(analysis: TraceAnalysis): MainThreadResult {
+  const { main_thread: mainThread } = analysis;
+  return {
+    totalTimeMs: mainThread.total_time_ms,
+    busyTimeMs: mainThread.busy_time_ms,
+    idleTimeMs: mainThread.idle_time_ms,
+    taskCount: mainThread.task_count,
+    longTaskCount: mainThread.long_task_count,
+    categories: analysis.category_breakdown.map(category => ({
+      category: category.category,
+      label: category.label,
+      timeMs: category.time_ms,
+      percentage: parseFloat(category.percentage),
+    })),
+    topLevelTasks: analysis.top_level_tasks.map(task => ({
+      name: task.name,
+      startTimeMs: task.start_ms,
+      durationMs: task.duration_ms,
+      dominantCategory: task.dominant_category,
+      url: task.url || null,
+      breakdown: task.breakdown,
+    })),
+  };
+}
+
+function toInteractionResult(interaction: InteractionAnalysis): InteractionResult {
+  return {
+    interactionId: interaction.interaction_id,
+    type: interaction.type,
+    startTimeMs: interaction.start_ms,
+    durationMs: interaction.duration_ms,
+    inputDelayMs: interaction.input_delay_ms,
+    processingTimeMs: interaction.processing_time_ms,
+    presentationDelayMs: interaction.presentation_delay_ms,
+    rating: interaction.rating,
+    processingFunctions: interaction.processing_functions.map(func => ({
+      name: func.function,
+      file: func.file,
+      location: func.location,
+      selfTimeMs: func.self_time_ms,
+      original: func.isSourceMapped && func.originalFile
+        ? { file: func.originalFile, line: func.originalLine, column: func.originalColumn }
+        : null,
+    })),
+  };
+}
+
+function toMemoryResult(analysis: MemoryAnalysis): MemoryResult {
+  const { heap } = analysis;
+  return {
+    totalAllocatedBytes: analysis.total_allocated_bytes,
+    heap: {
+      initialBytes: heap.initial_bytes,
+      peakBytes: heap.peak_bytes,
+      finalBytes: heap.final_bytes,
+      retainedBeforeBytes: heap.retained_before_bytes,
+      retainedAfterBytes: heap.retained_after_bytes,
+      retainedGrowthBytes: heap.retained_growth_bytes,
+      durationMs: heap.duration_ms,
+      timeline: heap.timeline.map(point => ({ timeMs: point.time_ms, usedBytes: point.used_bytes })),
+    },
+    topAllocations: analysis.top_allocations.map(allocation => ({
+      name: allocation.function,
+      location: allocation.location,
+      selfSizeBytes: allocation.self_size_bytes,
+      percentage: parseFloat(allocation.percentage),
+      original: allocation.isSourceMapped && allocation.originalFile
+        ? { file: allocation.originalFile, line: allocation.originalLine, name: allocation.originalName || null }
+        : null,
+    })),
+  };
+}
+
+function toCoverageResult(analysis: CoverageAnalysis): CoverageResult {
+  const toUsage = (usage: CoverageUsage): CoverageUsageResult => ({
+    totalBytes: usage.total_bytes,
+    unusedBytes: usage.unused_bytes,
+    unusedPercentage: parseFloat(usage.unused_percentage),
+  });
+  const toGroups = (groups: CoverageAnalysis['sources']) => groups.map(group => ({ name: group.name, ...toUsage(group) }));
+  return {
+    total: toUsage(analysis.total),
+    js: toUsage(analysis.js),
+    css: toUsage(analysis.css),
+    files: analysis.files.map(file => ({ name: file.name, type: file.type, isSourceMapped: file.isSourceMapped, ...toUsage(file) })),
+    sources: toGroups(analysis.sources),
+    directories: toGroups(analysis.directories),
+    packages: toGroups(analysis.packages),
+  };
+}
+
+function round(value: number): number {
+  return Math.round((value || 0) * 10) / 10;
+}
+
+// JSON schemas of the results, declared as the output schema of the MCP tools
+const nullable = (schema: Record<string, unknown>) => ({ anyOf: [schema, { type: 'null' }] });
+
+const METRIC_SCHEMA = nullable({
+  type: 'object',
+  properties: {
+    value: { type: 'number' },
+    rating: { type: 'string', enum: ['good', 'needs-improvement', 'poor', 'unknown'] },
+  },
+  required: ['value', 'rating'],
+});
+
+const STEP_RESULT_PROPERTIES = {
+  performanceScore: { type: ['number', 'null'] },
+  metrics: {
+    type: 'object',
+    properties: Object.fromEntries(VITALS.map(key => [key, METRIC_SCHEMA])),
+  },
+  longTasks: {
+    type: 'object',
+    properties: {
+      count: { type: 'number' },
+      totalDurationMs: { type: 'number' },
+    },
+    required: ['count', 'totalDurationMs'],
+  },
+};
+
+export const AUDIT_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    schemaVersion: { type: 'string' },
+    kind: { type: 'string', enum: ['audit'] },
+    runId: { type: ['string', 'null'] },
+    url: { type: 'string' },
+    timestamp: { type: 'string' },
+    ...STEP_RESULT_PROPERTIES,
+    longTasks: {
+      type: 'object',
+      properties: {
+        ...STEP_RESULT_PROPERTIES.longTasks.properties,
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              url: { type: 'string' },
+              startTimeMs: { type: 'number' },
+              durationMs: { type: 'number' },
+            },
+          },
+        },
+      },
+      required: ['count', 'totalDurationMs', 'items'],
+    },
+    aggregate: nullable({
+      type: 'object',
+      description: 'Median, p75, min, max and standard deviation of every metric across the runs',
+    }),
+    budget: nullable({
+      type: 'object',
+      properties: {
+        passed: { type: 'boolean' },
+        assertions: { type: 'array', items: { type: 'object' } },
+      },
+      required: ['passed', 'assertions'],
+    }),
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          mode: { type: 'string', enum: ['navigation', 'timespan', 'snapshot'] },
+          ...STEP_RESULT_PROPERTIES,
+        },
+        required: ['name', 'mode', 'performanceScore', 'metrics', 'longTasks'],
+      },
+    },
+  },
+  required: ['schemaVersion', 'kind', 'runId', 'url', 'timestamp', 'performanceScore', 'metrics', 'longTasks', 'steps'],
+};
+
+const ATTRIBUTION_GROUP_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    selfTime: { type: 'number' },
+    totalTime: { type: 'number' },
+    percentage: { type: 'string' },
+    firstParty: { type: 'boolean' },
+  },
+  required: ['name', 'selfTime', 'totalTime', 'percentage'],
+};
+
+const ORIGINAL_LOCATION_SCHEMA = nullable({
+  type: 'object',
+  properties: {
+    file: { type: 'string' },
+    line: { type: 'number' },
+    column: { type: 'number' },
+    name: { type: ['string', 'null'] },
+  },
+  required: ['file', 'line'],
+});
+
+const TRACE_CATEGORIES = ['scriptEvaluation', 'styleLayout', 'paintComposite', 'parsing', 'garbageCollection', 'other', 'idle'];
+
+const COVERAGE_USAGE_PROPERTIES = {
+  totalBytes: { type: 'number' },
+  unusedBytes: { type: 'number' },
+  unusedPercentage: { type: 'number' },
+};
+
+const COVERAGE_GROUP_SCHEMA = {
+  type: 'object',
+  properties: { name: { type: 'string' }, ...COVERAGE_USAGE_PROPERTIES },
+  required: ['name', 'totalBytes', 'unusedBytes', 'unusedPercentage'],
+};
+
+const COVERAGE_USAGE_SCHEMA = {
+  type: 'object',
+  properties: COVERAGE_USAGE_PROPERTIES,
+  required: ['totalBytes', 'unusedBytes', 'unusedPercentage'],
+};
+
+const PROFILE_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    totalExecutionTimeMs: { type: 'number' },
+    totalSamples: { type: 'number' },
+    sampleIntervalMs: { type: 'number' },
+    functions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          file: { type: 'string' },
+          location: { type: 'string' },
+          selfTimeMs: { type: 'number' },
+          cpuPercentage: { type: 'number' },
+          callCount: { type: 'number' },
+          stackTrace: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Source-mapped frames from the function up to the outermost caller'
+          },
+          original: ORIGINAL_LOCATION_SCHEMA,
+        },
+        required: ['name', 'file', 'selfTimeMs', 'cpuPercentage', 'original'],
+      },
+    },
+    mainThread: nullable({
+      type: 'object',
+      description: 'Main thread time by category and the longest top-level tasks',
+      properties: {
+        totalTimeMs: { type: 'number' },
+        busyTimeMs: { type: 'number' },
+        idleTimeMs: { type: 'number' },
+        taskCount: { type: 'number' },
+        longTaskCount: { type: 'number' },
+        categories: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              category: { type: 'string', enum: TRACE_CATEGORIES },
+              label: { type: 'string' },
+              timeMs: { type: 'number' },
+              percentage: { type: 'number' },
+            },
+            required: ['category', 'label', 'timeMs', 'percentage'],
+          },
+        },
+        topLevelTasks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              startTimeMs: { type: 'number' },
+              durationMs: { type: 'number' },
+              dominantCategory: { type: 'string', enum: TRACE_CATEGORIES },
+              url: { type: ['string', 'null'] },
+              breakdown: { type: 'object', description: 'Time in ms by category' },
+            },
+            required: ['name', 'startTimeMs', 'durationMs', 'dominantCategory', 'url', 'breakdown'],
+          },
+        },
+      },
+      required: ['totalTimeMs', 'busyTimeMs', 'idleTimeMs', 'taskCount', 'longTaskCount', 'categories', 'topLevelTasks'],
+    }),
+    interactions: {
+      type: 'array',
+      description: 'Input delay, processing time and presentation delay of each interaction',
+      items: {
+        type: 'object',
+        properties: {
+          interactionId: { type: 'number' },
+          type: { type: 'string' },
+          startTimeMs: { type: 'number' },
+          durationMs: { type: 'number' },
+          inputDelayMs: { type: 'number' },
+          processingTimeMs: { type: 'number' },
+          presentationDelayMs: { type: 'number' },
+          rating: { type: 'string', enum: ['good', 'needs-improvement', 'poor', 'unknown'] },
+          processingFunctions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                file: { type: 'string' },
+                location: { type: 'string' },
+                selfTimeMs: { type: 'number' },
+                original: ORIGINAL_LOCATION_SCHEMA,
+              },
+              required: ['name', 'file', 'location', 'selfTimeMs', 'original'],
+            },
+          },
+        },
+        required: ['interactionId', 'type', 'startTimeMs', 'durationMs', 'inputDelayMs', 'processingTimeMs', 'presentationDelayMs', 'rating', 'processingFunctions'],
+      },
+    },
+    attribution: nullable({
+      type: 'object',
+      description: 'Self and total CPU time by origin (first-party and each third-party host), npm package and original source directory',
+      properties: {
+        firstPartyDomains: { type: 'array', items: { type: 'string' } },
+        origins: { type: 'array', items: ATTRIBUTION_GROUP_SCHEMA },
+        packages: { type: 'array', items: ATTRIBUTION_GROUP_SCHEMA },
+        directories: { type: 'array', items: ATTRIBUTION_GROUP_SCHEMA },
+      },
+      required: ['firstPartyDomains', 'origins', 'packages', 'directories'],
+    }),
+    statistics: nullable({
+      type: 'object',
+      description: 'Mean, variance and confidence of each function\'s self time when several profiles are merged',
+      properties: {
+        profileCount: { type: 'number' },
+        meanTotalTime: { type: 'number' },
+        totalTimeStdDev: { type: 'number' },
+        functions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              identity: { type: 'string' },
+              function: { type: 'string' },
+              file: { type: 'string' },
+              isSourceMapped: { type: 'boolean' },
+              meanSelfTime: { type: 'number' },
+              variance: { type: 'number' },
+              stdDev: { type: 'number' },
+              presentIn: { type: 'number' },
+              confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+            },
+            required: ['identity', 'function', 'meanSelfTime', 'variance', 'stdDev', 'presentIn', 'confidence'],
+          },
+        },
+      },
+      required: ['profileCount', 'meanTotalTime', 'totalTimeStdDev', 'functions'],
+    }),
+    memory: nullable({
+      type: 'object',
+      description: 'Sampled allocations by source-mapped function and the JS heap size over time, when the audit ran with memory',
+      properties: {
+        totalAllocatedBytes: { type: 'number' },
+        heap: {
+          type: 'object',
+          properties: {
+            initialBytes: { type: 'number' },
+            peakBytes: { type: 'number' },
+            finalBytes: { type: 'number' },
+            retainedBeforeBytes: { type: 'number' },
+            retainedAfterBytes: { type: 'number' },
+            retainedGrowthBytes: { type: 'number' },
+            durationMs: { type: 'number' },
+            timeline: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { timeMs: { type: 'number' }, usedBytes: { type: 'number' } },
+                required: ['timeMs', 'usedBytes'],
+              },
+            },
+          },
+          required: ['initialBytes', 'peakBytes', 'finalBytes', 'retainedBeforeBytes', 'retainedAfterBytes', 'retainedGrowthBytes', 'durationMs', 'timeline'],
+        },
+        topAllocations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              location: { type: 'string' },
+              selfSizeBytes: { type: 'number' },
+              percentage: { type: 'number' },
+              original: ORIGINAL_LOCATION_SCHEMA,
+            },
+            required: ['name', 'location', 'selfSizeBytes', 'percentage', 'original'],
+          },
+        },
+      },
+      required: ['totalAllocatedBytes', 'heap', 'topAllocations'],
+    }),
+    coverage: nullable({
+      type: 'object',
+      description: 'Unused JS and CSS bytes of the page load by file, and for source-mapped scripts by original file, directory and npm package, when the audit ran with coverage',
+      properties: {
+        total: COVERAGE_USAGE_SCHEMA,
+        js: COVERAGE_USAGE_SCHEMA,
+        css: COVERAGE_USAGE_SCHEMA,
+        files: {
+          type: 'array',
+          items: {
+            ...COVERAGE_GROUP_SCHEMA,
+            properties: {
+              ...COVERAGE_GROUP_SCHEMA.properties,
+              type: { type: 'string', enum: ['js', 'css'] },
+              isSourceMapped: { type: 'boolean' },
+            },
+          },
+        },
+        sources: { type: 'array', items: COVERAGE_GROUP_SCHEMA },
+        directories: { type: 'array', items: COVERAGE_GROUP_SCHEMA },
+        packages: { type: 'array', items: COVERAGE_GROUP_SCHEMA },
+      },
+      required: ['total', 'js', 'css', 'files', 'sources', 'directories', 'packages'],
+    }),
+  },
+  required: ['totalExecutionTimeMs', 'totalSamples', 'sampleIntervalMs', 'functions', 'mainThread', 'interactions', 'attribution', 'statistics', 'memory', 'coverage'],
+};
+
+export const ANALYSIS_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    schemaVersion: { type: 'string' },
+    kind: { type: 'string', enum: ['analysis'] },
+    runId: { type: ['string', 'null'] },
+    audit: nullable(AUDIT_RESULT_SCHEMA),
+    profile: PROFILE_RESULT_SCHEMA,
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          mode: { type: 'string', enum: ['navigation', 'timespan', 'snapshot'] },
+          profile: nullable(PROFILE_RESULT_SCHEMA),
+        },
+        required: ['name', 'mode', 'profile'],
+      },
+    },
+  },
+  required: ['schemaVersion', 'kind', 'runId', 'audit', 'profile', 'steps'],
+};
@@ -0,0 +1,87 @@
+import type { AggregatedMetrics, MetricStatistics, PerformanceMetrics } from './types';
+
+const VITALS = ['fcp', 'lcp', 'cls', 'ttfb', 'tbt', 'inp'] as const;
+
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+// Linear interpolation between the closest ranks
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+export function computeStatistics(values: number[]): MetricStatistics {
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    median: round(median(values)),
+    p75: round(percentile(values, 75)),
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values)),
+    stdDev: round(standardDeviation(values)),
+  };
+}
+
+export function aggregateRuns(results: PerformanceMetrics[]): AggregatedMetrics {
+  // Flow steps without a score are left out rather than counted as 0
+  const scores = results
+    .map(result => result.performanceScore)
+    .filter(score => typeof score === 'number');
+  const performanceScore = scores.length > 0 ? computeStatistics(scores) : null;
+
+  const coreWebVitals: AggregatedMetrics['coreWebVitals'] = {};
+  for (const key of VITALS) {
+    const values = results
+      .map(result => result.coreWebVitals?.[key]?.value)
+      .filter(value => typeof value === 'number');
+    if (values.length > 0) {
+      coreWebVitals[key] = computeStatistics(values);
+    }
+  }
+
+  return {
+    runs: results.length,
+    representativeRun: findRepresentativeRun(results, performanceScore, coreWebVitals) + 1,
+    performanceScore,
+    coreWebVitals,
+  };
+}
+
+// The run closest to the median across all metrics, each metric's distance is
+// relative to its median so milliseconds don't outweigh the layout shift score
+function findRepresentativeRun(
+  results: PerformanceMetrics[],
+  performanceScore: MetricStatistics | null,
+  coreWebVitals: AggregatedMetrics['coreWebVitals']
+): number {
+  const relativeDistance = (value: number | undefined, stats: MetricStatistics) => {
+    if (typeof value !== 'number') return 0;
+    return Math.abs(value - stats.median) / (Math.abs(stats.median) || 1);
+  };
+
+  let bestIndex = 0;
+  let bestDistance = Infinity;
+  results.forEach((result, index) => {
+    let distance = performanceScore ? relativeDistance(result.performanceScore, performanceScore) : 0;
+    for (const [key, stats] of Object.entries(coreWebVitals)) {
+      distance += relativeDistance(result.coreWebVitals?.[key]?.value, stats);
+    }
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
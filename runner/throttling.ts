@@ -0,0 +1,61 @@
+import type { CDPSession } from 'puppeteer';
+import type { ThrottlingConfig, ThrottlingPreset, ThrottlingSettings } from './types';
+
+// Request latency and throughput as applied by DevTools throttling, which are the
+// Lighthouse network presets adjusted for the lack of a real round trip
+export const THROTTLING_PRESETS: Record<ThrottlingPreset, ThrottlingSettings> = {
+  none: { latency: 0, downloadThroughput: 0, uploadThroughput: 0, cpuSlowdown: 1 },
+  fast4g: { latency: 165, downloadThroughput: 8100, uploadThroughput: 1350, cpuSlowdown: 2 },
+  slow4g: { latency: 562.5, downloadThroughput: 1474.56, uploadThroughput: 675, cpuSlowdown: 4 },
+  '3g': { latency: 1125, downloadThroughput: 630, uploadThroughput: 630, cpuSlowdown: 4 },
+};
+
+export function getThrottlingSettings(config: ThrottlingConfig): ThrottlingSettings {
+  if (typeof config === 'string') {
+    const preset = THROTTLING_PRESETS[config];
+    if (!preset) {
+      throw new Error(`Unknown throttling preset: ${config}, use one of ${Object.keys(THROTTLING_PRESETS).join(', ')} or a custom config`);
+    }
+    return preset;
+  }
+  const { preset, ...custom } = config;
+  if (preset !== 'custom') {
+    throw new Error(`Unknown throttling preset: ${preset}`);
+  }
+  return { ...THROTTLING_PRESETS.none, ...custom };
+}
+
+export function describeThrottling(config: ThrottlingConfig): string {
+  const settings = getThrottlingSettings(config);
+  const name = typeof config === 'string' ? config : 'custom';
+  return `${name} (${settings.latency}ms latency, ${settings.downloadThroughput}/${settings.uploadThroughput} Kbps, ${settings.cpuSlowdown}x CPU slowdown)`;
+}
+
+// Throttle the page the same way Lighthouse's devtools throttling does, so the
+// profiling navigation runs under the conditions the metrics are measured with
+export async function applyThrottling(session: CDPSession, settings: ThrottlingSettings): Promise<void> {
+  await session.send('Network.emulateNetworkConditions', {
+    offline: false,
+    latency: settings.latency,
+    downloadThroughput: settings.downloadThroughput > 0 ? settings.downloadThroughput * 1024 / 8 : -1,
+    uploadThroughput: settings.uploadThroughput > 0 ? settings.uploadThroughput * 1024 / 8 : -1,
+  });
+  await session.send('Emulation.setCPUThrottlingRate', { rate: settings.cpuSlowdown });
+}
+
+// Lighthouse settings for the same conditions, 'provided' leaves the page unthrottled
+export function getLighthouseThrottling(settings: ThrottlingSettings) {
+  const isThrottled = settings.latency > 0 || settings.downloadThroughput > 0
+    || settings.uploadThroughput > 0 || settings.cpuSlowdown > 1;
+  return {
+    throttlingMethod: (isThrottled ? 'devtools' : 'provided') as 'devtools' | 'provided',
+    throttling: {
+      rttMs: settings.latency,
+      throughputKbps: settings.downloadThroughput,
+      requestLatencyMs: settings.latency,
+      downloadThroughputKbps: settings.downloadThroughput,
+      uploadThroughputKbps: settings.uploadThroughput,
+      cpuSlowdownMultiplier: settings.cpuSlowdown,
+    },
+  };
+}
@@ -0,0 +1,271 @@
+import type { TraceEvent, TraceAnalysis, TraceCategory } from './types';
+
+// Trace event names grouped the same way Lighthouse groups main thread work
+const EVENT_CATEGORIES: Record<string, TraceCategory> = {
+  // Script evaluation
+  EvaluateScript: 'scriptEvaluation',
+  'v8.evaluateModule': 'scriptEvaluation',
+  FunctionCall: 'scriptEvaluation',
+  TimerFire: 'scriptEvaluation',
+  EventDispatch: 'scriptEvaluation',
+  FireIdleCallback: 'scriptEvaluation',
+  FireAnimationFrame: 'scriptEvaluation',
+  RunMicrotasks: 'scriptEvaluation',
+  'V8.Execute': 'scriptEvaluation',
+  XHRReadyStateChange: 'scriptEvaluation',
+  XHRLoad: 'scriptEvaluation',
+  // Style & layout
+  ScheduleStyleRecalculation: 'styleLayout',
+  UpdateLayoutTree: 'styleLayout',
+  RecalculateStyles: 'styleLayout',
+  InvalidateLayout: 'styleLayout',
+  Layout: 'styleLayout',
+  // Paint & composite
+  Animation: 'paintComposite',
+  RequestMainThreadFrame: 'paintComposite',
+  ActivateLayerTree: 'paintComposite',
+  DrawFrame: 'paintComposite',
+  HitTest: 'paintComposite',
+  PaintSetup: 'paintComposite',
+  Paint: 'paintComposite',
+  PaintImage: 'paintComposite',
+  PrePaint: 'paintComposite',
+  Rasterize: 'paintComposite',
+  RasterTask: 'paintComposite',
+  ScrollLayer: 'paintComposite',
+  UpdateLayer: 'paintComposite',
+  UpdateLayerTree: 'paintComposite',
+  Layerize: 'paintComposite',
+  CompositeLayers: 'paintComposite',
+  Commit: 'paintComposite',
+  // Parsing (HTML, CSS and script compilation)
+  ParseHTML: 'parsing',
+  ParseAuthorStyleSheet: 'parsing',
+  'v8.compile': 'parsing',
+  'v8.compileModule': 'parsing',
+  'v8.parseOnBackground': 'parsing',
+  'V8.CompileCode': 'parsing',
+  'V8.CompileLazy': 'parsing',
+  // Garbage collection
+  GCEvent: 'garbageCollection',
+  MinorGC: 'garbageCollection',
+  MajorGC: 'garbageCollection',
+  'BlinkGC.AtomicPhase': 'garbageCollection',
+  'ThreadState::performIdleLazySweep': 'garbageCollection',
+  'ThreadState::completeSweep': 'garbageCollection',
+  'BlinkGCMarking': 'garbageCollection',
+  'V8.GCScavenger': 'garbageCollection',
+  'V8.GCCompactor': 'garbageCollection',
+  'V8.GCFinalizeMC': 'garbageCollection',
+  'V8.GCIncrementalMarking': 'garbageCollection',
+};
+
+export const CATEGORY_LABELS: Record<TraceCategory, string> = {
+  scriptEvaluation: 'Script Evaluation',
+  styleLayout: 'Style & Layout',
+  paintComposite: 'Paint & Composite',
+  parsing: 'Parsing & Compilation',
+  garbageCollection: 'Garbage Collection',
+  other: 'Other',
+  idle: 'Idle',
+};
+
+interface TraceNode {
+  event: TraceEvent;
+  start: number;
+  end: number;
+  children: TraceNode[];
+}
+
+export class TraceAnalyzer {
+  analyze(traceEvents: TraceEvent[]): TraceAnalysis | null {
+    if (!Array.isArray(traceEvents) || traceEvents.length === 0) {
+      return null;
+    }
+
+    const mainThread = this.findMainThread(traceEvents);
+    if (!mainThread) {
+      return null;
+    }
+
+    const mainThreadEvents = traceEvents.filter(event =>
+      event.pid === mainThread.pid && event.tid === mainThread.tid
+    );
+    const roots = this.buildTaskTree(mainThreadEvents);
+    if (roots.length === 0) {
+      return null;
+    }
+
+    const windowStart = roots[0].start;
+    const windowEnd = roots.reduce((max, root) => Math.max(max, root.end), roots[0].end);
+    const totalTime = windowEnd - windowStart;
+
+    const categoryTimes = this.emptyBreakdown();
+    const tasks = roots.map(root => {
+      const breakdown = this.emptyBreakdown();
+      this.accumulateSelfTimes(root, this.getCategory(root.event.name) || 'other', breakdown);
+      for (const [category, time] of Object.entries(breakdown)) {
+        categoryTimes[category] += time;
+      }
+      return { root, breakdown };
+    });
+
+    const busyTime = roots.reduce((sum, root) => sum + (root.end - root.start), 0);
+    categoryTimes.idle = Math.max(0, totalTime - busyTime);
+
+    const category_breakdown = (Object.keys(CATEGORY_LABELS) as TraceCategory[])
+      .map(category => ({
+        category,
+        label: CATEGORY_LABELS[category],
+        time_ms: this.toMs(categoryTimes[category]),
+        percentage: totalTime > 0 ? ((categoryTimes[category] / totalTime) * 100).toFixed(2) : '0.00',
+      }))
+      .filter(entry => entry.time_ms > 0)
+      .sort((a, b) => b.time_ms - a.time_ms);
+
+    const top_level_tasks = tasks
+      .sort((a, b) => (b.root.end - b.root.start) - (a.root.end - a.root.start))
+      .slice(0, 10)
+      .map(({ root, breakdown }) => {
+        const [dominant] = Object.entries(breakdown).sort((a, b) => b[1] - a[1]);
+        const taskBreakdown: Partial<Record<TraceCategory, number>> = {};
+        for (const [category, time] of Object.entries(breakdown)) {
+          if (time > 0) taskBreakdown[category] = this.toMs(time);
+        }
+        return {
+          name: root.event.name,
+          start_ms: this.toMs(root.start - windowStart),
+          duration_ms: this.toMs(root.end - root.start),
+          dominant_category: dominant[0] as TraceCategory,
+          url: this.findScriptUrl(root),
+          breakdown: taskBreakdown,
+        };
+      });
+
+    return {
+      main_thread: {
+        total_time_ms: this.toMs(totalTime),
+        busy_time_ms: this.toMs(busyTime),
+        idle_time_ms: this.toMs(categoryTimes.idle),
+        task_count: roots.length,
+        long_task_count: roots.filter(root => root.end - root.start > 50000).length,
+      },
+      category_breakdown,
+      top_level_tasks,
+    };
+  }
+
+  // Pick the renderer main thread that did the most work, the trace
+  // can contain several renderers (iframes, extensions, etc.)
+  private findMainThread(traceEvents: TraceEvent[]): { pid: number, tid: number } | null {
+    const candidates = traceEvents.filter(event =>
+      event.ph === 'M' && event.name === 'thread_name' && event.args?.name === 'CrRendererMain'
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const busyTimes = new Map<string, number>();
+    for (const event of traceEvents) {
+      if (event.ph !== 'X' || !event.dur) continue;
+      const key = `${event.pid}:${event.tid}`;
+      busyTimes.set(key, (busyTimes.get(key) || 0) + event.dur);
+    }
+
+    const [best] = candidates.sort((a, b) =>
+      (busyTimes.get(`${b.pid}:${b.tid}`) || 0) - (busyTimes.get(`${a.pid}:${a.tid}`) || 0)
+    );
+    return { pid: best.pid, tid: best.tid };
+  }
+
+  // Nest complete (X) and begin/end (B/E) events into a tree of tasks
+  private buildTaskTree(events: TraceEvent[]): TraceNode[] {
+    const spans: TraceNode[] = [];
+    // B/E events nest per thread and an E closes the latest B, its name is optional
+    const openSpans = new Map<string, TraceEvent[]>();
+
+    const sorted = events
+      .filter(event => event.ph === 'X' || event.ph === 'B' || event.ph === 'E')
+      .sort((a, b) => a.ts - b.ts);
+
+    for (const event of sorted) {
+      if (event.ph === 'X') {
+        if (event.dur === undefined) continue;
+        spans.push({ event, start: event.ts, end: event.ts + event.dur, children: [] });
+      } else if (event.ph === 'B') {
+        const thread = `${event.pid}:${event.tid}`;
+        if (!openSpans.has(thread)) openSpans.set(thread, []);
+        openSpans.get(thread).push(event);
+      } else {
+        const begin = openSpans.get(`${event.pid}:${event.tid}`)?.pop();
+        if (!begin) continue;
+        spans.push({ event: begin, start: begin.ts, end: event.ts, children: [] });
+      }
+    }
+
+    // Longer spans first for equal start times so parents precede children
+    spans.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+    const roots: TraceNode[] = [];
+    const stack: TraceNode[] = [];
+    for (const span of spans) {
+      while (stack.length > 0 && stack[stack.length - 1].end <= span.start) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        // Clamp children that slightly overrun their parent
+        span.end = Math.min(span.end, parent.end);
+        parent.children.push(span);
+      } else {
+        roots.push(span);
+      }
+      stack.push(span);
+    }
+    return roots;
+  }
+
+  // Attribute each node's self time to its own category, or the nearest categorized ancestor
+  private accumulateSelfTimes(node: TraceNode, inherited: TraceCategory, breakdown: Record<TraceCategory, number>) {
+    const category = this.getCategory(node.event.name) || inherited;
+    const childTime = node.children.reduce((sum, child) => sum + (child.end - child.start), 0);
+    breakdown[category] += Math.max(0, (node.end - node.start) - childTime);
+    for (const child of node.children) {
+      this.accumulateSelfTimes(child, category, breakdown);
+    }
+  }
+
+  private findScriptUrl(node: TraceNode): string | undefined {
+    const data = node.event.args?.data;
+    const url = data?.url || data?.stackTrace?.[0]?.url;
+    if (url && this.getCategory(node.event.name) === 'scriptEvaluation') {
+      return url;
+    }
+    for (const child of node.children) {
+      const childUrl = this.findScriptUrl(child);
+      if (childUrl) return childUrl;
+    }
+    return undefined;
+  }
+
+  private getCategory(name: string): TraceCategory | undefined {
+    return EVENT_CATEGORIES[name];
+  }
+
+  private emptyBreakdown(): Record<TraceCategory, number> {
+    return {
+      scriptEvaluation: 0,
+      styleLayout: 0,
+      paintComposite: 0,
+      parsing: 0,
+      garbageCollection: 0,
+      other: 0,
+      idle: 0,
+    };
+  }
+
+  // Trace timestamps are in microseconds
+  private toMs(microseconds: number): number {
+    return Math.round(microseconds / 100) / 10;
+  }
+}
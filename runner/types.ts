@@ -3,9 +3,132 @@ import { Result } from "lighthouse";
 
 export interface TestConfig {
   url: string;
-  device?: 'desktop' | 'mobile';
+  device?: string;                        // Name of a device profile, see devices.ts
+  devices?: Record<string, DeviceProfile>; // User-defined device profiles
   profile?: boolean;
   headless?: boolean;
+  runs?: number;
+  budget?: PerformanceBudget;
+  sourceMaps?: SourceMapConfig;           // Matches the file budgets against original paths
+  auth?: AuthConfig;
+  steps?: FlowStep[];
+  interactions?: FlowStep[];
+  throttling?: ThrottlingConfig;
+  memory?: boolean;                       // Record a sampling heap profile and the JS heap size over time
+  coverage?: boolean;                     // Record JS and CSS coverage of the page load
+}
+
+export interface DeviceProfile {
+  description?: string;
+  formFactor: 'desktop' | 'mobile';
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  userAgent?: string;           // Chrome's own user agent when omitted
+  touch?: boolean;
+  throttling?: ThrottlingConfig; // Used when the audit doesn't set any throttling
+}
+
+// Network and CPU throttling, a named preset or custom values
+export type ThrottlingPreset = 'none' | 'fast4g' | 'slow4g' | '3g';
+
+export interface ThrottlingSettings {
+  latency: number;              // Request latency in ms
+  downloadThroughput: number;   // Kbps, 0 disables download throttling
+  uploadThroughput: number;     // Kbps, 0 disables upload throttling
+  cpuSlowdown: number;          // CPU slowdown multiplier, 1 is no slowdown
+}
+
+export type ThrottlingConfig = ThrottlingPreset | ({ preset: 'custom' } & Partial<ThrottlingSettings>);
+
+// Phases reported by AuditRunner 'phase' events while an audit runs
+export type AuditPhase = 'launching' | 'logging-in' | 'profiling' | 'lighthouse' | 'saving' | 'analyzing';
+
+export interface AuditPhaseEvent {
+  phase: AuditPhase;
+  message: string;
+  iteration: number;    // 1-based, 0 for the phases after all iterations
+  runs: number;
+}
+
+// Scripted user flow steps, navigate/timespan/snapshot become Lighthouse flow steps
+// and the interactions in between are performed with Puppeteer
+export type FlowStep =
+  | { type: 'navigate'; url?: string; name?: string }
+  | { type: 'click'; selector: string }
+  | { type: 'type'; selector: string; text: string }
+  | { type: 'waitForSelector'; selector: string; timeout?: number }
+  | { type: 'scroll'; selector?: string; x?: number; y?: number }
+  | { type: 'startTimespan'; name?: string }
+  | { type: 'endTimespan' }
+  | { type: 'snapshot'; name?: string };
+
+export type FlowStepMode = 'navigation' | 'timespan' | 'snapshot';
+
+// Authentication performed before the page is audited
+export interface FormLoginConfig {
+  loginUrl: string;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  usernameEnv: string;          // Environment variable holding the username
+  passwordEnv: string;          // Environment variable holding the password
+  waitForSelector?: string;     // Wait for this selector instead of a navigation after submitting
+  fallbackCredentials?: { username: string; password: string };
+}
+
+export interface AuthCookie {
+  name: string;
+  value: string;
+  domain?: string;              // Defaults to the audited URL's host
+  path?: string;
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+export interface AuthConfig {
+  preset?: 'kibana';
+  form?: Partial<FormLoginConfig>;
+  cookies?: AuthCookie[];
+  headers?: Record<string, string>;   // e.g. { Authorization: 'Bearer ...' }
+  storageStatePath?: string;          // Playwright style storage state JSON file
+}
+
+// Performance budgets, metric limits are maximums except the performance score which is a minimum
+export interface PerformanceBudget {
+  metrics?: {
+    performanceScore?: number;
+    fcp?: number;
+    lcp?: number;
+    cls?: number;
+    ttfb?: number;
+    tbt?: number;
+    inp?: number;
+  };
+  longTasks?: {
+    maxCount?: number;
+    maxTotalDuration?: number;
+  };
+  cpu?: Array<{
+    file?: string;      // Original source path (or part of it), e.g. src/charts/
+    package?: string;   // npm package name, e.g. lodash
+    maxSelfTime: number;
+  }>;
+}
+
+export interface BudgetAssertion {
+  name: string;
+  actual: number | null;
+  limit: number;
+  comparison: 'max' | 'min';
+  unit: string;
+  passed: boolean;
+}
+
+export interface BudgetResult {
+  passed: boolean;
+  assertions: BudgetAssertion[];
 }
 
 export interface MetricRating {
@@ -15,6 +138,7 @@ export interface MetricRating {
 
 // Performance metrics schema
 export interface PerformanceMetrics {
+  runId?: string;
   url: string;
   timestamp: string;
   coreWebVitals: {
@@ -23,9 +147,108 @@ export interface PerformanceMetrics {
     cls: MetricRating;
     ttfb: MetricRating;
     tbt: MetricRating;
+    inp?: MetricRating;     // Only measured in timespans with interactions
   };
-  performanceScore: number;
+  performanceScore: number | null;  // null for timespan and snapshot steps without a score
   longTasks: Result["audits"]["long-tasks"];
+  aggregate?: AggregatedMetrics;
+  budget?: BudgetResult;
+  steps?: FlowStepMetrics[];
+}
+
+export interface FlowStepMetrics extends Omit<PerformanceMetrics, 'steps'> {
+  name: string;
+  mode: FlowStepMode;
+}
+
+// Statistics across the iterations of a multi-run audit
+export interface MetricStatistics {
+  median: number;
+  p75: number;
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+export interface AggregatedMetrics {
+  runs: number;
+  representativeRun: number;  // 1-based iteration closest to the median
+  performanceScore: MetricStatistics | null;
+  coreWebVitals: Partial<Record<keyof PerformanceMetrics['coreWebVitals'], MetricStatistics>>;
+}
+
+// Run comparison
+export type ChangeVerdict = 'improvement' | 'regression' | 'noise';
+
+export interface MetricDelta {
+  metric: string;
+  label: string;
+  unit: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  deltaPercent: string | null;
+  verdict: ChangeVerdict;
+}
+
+export interface RunComparison {
+  baseline: { runId?: string; url: string; timestamp: string };
+  current: { runId?: string; url: string; timestamp: string };
+  metrics: MetricDelta[];
+  summary: {
+    improvements: number;
+    regressions: number;
+    noise: number;
+  };
+}
+
+// CPU profile diff
+export interface FunctionDiff {
+  identity: string;
+  function: string;
+  file: string;
+  isSourceMapped: boolean;
+  baseline: { selfTime: number; totalTime: number } | null;
+  current: { selfTime: number; totalTime: number } | null;
+  selfTimeDelta: number;
+  totalTimeDelta: number;
+}
+
+export interface CPUProfileDiff {
+  baseline: { total_execution_time_ms: number; function_count: number };
+  current: { total_execution_time_ms: number; function_count: number };
+  gained: FunctionDiff[];
+  lost: FunctionDiff[];
+  added: FunctionDiff[];
+  removed: FunctionDiff[];
+}
+
+// Saved audit runs
+export interface RunArtifacts {
+  report: string;
+  cpuProfile?: string;
+  traceEvents?: string;
+  memoryProfile?: string;
+  coverage?: string;
+  steps?: StepArtifacts[];
+}
+
+export interface StepArtifacts {
+  name: string;
+  mode: FlowStepMode;
+  cpuProfile?: string;
+  traceEvents?: string;
+}
+
+export interface RunManifest {
+  runId: string;
+  url: string;
+  device: TestConfig['device'];
+  timestamp: string;
+  config: TestConfig;
+  artifacts: RunArtifacts;
+  representativeRun?: number;
+  iterations?: Array<{ index: number; artifacts: RunArtifacts }>;
 }
 
 // CPU Profile Analysis
@@ -52,6 +275,7 @@ export interface CPUProfileAnalysis {
     fullOriginalPath?: string;
     sourceMapUrl?: string;
     resolvedStackTrace?: string;
+    sourceSnippet?: SourceSnippet;
   }>;
   flamegraph_analysis?: {
     callStack: {
@@ -77,6 +301,229 @@ export interface CPUProfileAnalysis {
       executionPattern: { pattern: string, description: string };
     };
   };
+  trace_analysis?: TraceAnalysis;
+  interactions?: InteractionAnalysis[];
+  attribution?: CPUAttribution;
+  statistics?: MergedProfileStatistics;  // Set when the profile merges several profiles
+  memory_analysis?: MemoryAnalysis;
+  coverage_analysis?: CoverageAnalysis;
+}
+
+// Saved by the memory mode of an audit
+export interface SamplingHeapProfileNode {
+  id: number;
+  callFrame: { functionName: string; url: string; lineNumber: number; columnNumber: number };
+  selfSize: number;
+  children?: SamplingHeapProfileNode[];
+}
+
+export interface MemoryProfile {
+  samplingInterval: number;   // Average bytes between allocation samples
+  samplingProfile: {
+    head: SamplingHeapProfileNode;
+    samples?: Array<{ size: number; nodeId: number; ordinal: number }>;
+  };
+  heapUsage: Array<{ time: number; usedSize: number; totalSize: number }>;  // time in ms since the start
+  retainedBefore: number;     // JS heap bytes after a forced GC before loading the page
+  retainedAfter: number;      // and after a forced GC at the end
+}
+
+export interface MemoryAnalysis {
+  total_allocated_bytes: number;
+  heap: {
+    initial_bytes: number;
+    peak_bytes: number;
+    final_bytes: number;
+    retained_before_bytes: number;
+    retained_after_bytes: number;
+    retained_growth_bytes: number;
+    duration_ms: number;
+    timeline: Array<{ time_ms: number; used_bytes: number }>;
+  };
+  top_allocations: Array<{
+    function: string;
+    location: string;
+    self_size_bytes: number;
+    percentage: string;     // Share of the sampled allocations
+    isSourceMapped: boolean;
+    originalFile?: string;
+    originalLine?: number;
+    originalName?: string | null;
+  }>;
+}
+
+// Saved by the coverage mode of an audit, ranges are the used character offsets of the text
+export interface CoverageEntry {
+  url: string;
+  type: 'js' | 'css';
+  text: string;
+  ranges: Array<{ start: number; end: number }>;
+}
+
+export interface CoverageUsage {
+  total_bytes: number;
+  unused_bytes: number;
+  unused_percentage: string;
+}
+
+export interface CoverageGroup extends CoverageUsage {
+  name: string;
+}
+
+export interface CoverageAnalysis {
+  total: CoverageUsage;
+  js: CoverageUsage;
+  css: CoverageUsage;
+  files: Array<CoverageGroup & { type: 'js' | 'css'; isSourceMapped: boolean }>;
+  // Unused bytes of the source-mapped scripts by original file, directory and npm package
+  sources: CoverageGroup[];
+  directories: CoverageGroup[];
+  packages: CoverageGroup[];
+}
+
+// Spread of each function's self time across merged profiles
+export interface FunctionStatistics {
+  identity: string;       // Source-mapped identity the frames were matched by
+  function: string;
+  file: string;
+  isSourceMapped: boolean;
+  meanSelfTime: number;   // ms
+  variance: number;       // ms²
+  stdDev: number;         // ms
+  presentIn: number;      // Number of profiles the function was sampled in
+  confidence: 'high' | 'medium' | 'low';  // From the standard error of the mean
+}
+
+export interface MergedProfileStatistics {
+  profileCount: number;
+  meanTotalTime: number;    // ms
+  totalTimeStdDev: number;  // ms
+  functions: FunctionStatistics[];
+}
+
+// CPU time grouped by where the code comes from
+export interface AttributionConfig {
+  firstPartyDomains?: string[];  // Hosts of first-party scripts, subdomains included, defaults to the audited site
+}
+
+export interface AttributionGroup {
+  name: string;
+  selfTime: number;     // ms spent in the group's own frames
+  totalTime: number;    // ms with any frame of the group on the stack
+  percentage: string;   // Self time as a share of the profile
+}
+
+export interface CPUAttribution {
+  firstPartyDomains: string[];
+  origins: Array<AttributionGroup & { firstParty: boolean }>;  // first-party and each third-party host
+  packages: AttributionGroup[];     // npm packages of source-mapped node_modules paths
+  directories: AttributionGroup[];  // Top-level directories of the original sources
+}
+
+// Follow-up questions about a profile's call tree
+export type ProfileQueryView = 'function' | 'top-down' | 'bottom-up';
+
+export interface ProfileQuery {
+  view?: ProfileQueryView;  // Defaults to function when a function or file is given, top-down otherwise
+  function?: string;        // Function name, minified or original
+  file?: string;            // Part of the original file path or script URL
+  nodeId?: number;          // Call tree node the top-down and bottom-up views are rooted at
+  focus?: string;           // Only stacks through a frame matching this name or file, rooted at that frame
+  exclude?: string[];       // Frames matching these names or files are left out, their time goes to their caller
+  depth?: number;           // Levels of the tree views, defaults to 4
+  limit?: number;           // Entries per level, defaults to 10
+}
+
+export interface QueryFrame {
+  nodeId: number;           // A call tree node of the frame, to root further queries at
+  name: string;
+  file: string;
+  line: number;
+  isSourceMapped: boolean;
+  selfTime: number;         // ms, in bottom-up trees the callee's self time reached through this caller
+  totalTime: number;        // ms
+  percentage: string;       // Total time as a share of the queried time
+  children?: QueryFrame[];
+}
+
+export interface ProfileQueryResult {
+  view: ProfileQueryView;
+  totalTime: number;        // ms of samples left after the focus, exclude and node filters
+  target?: {
+    matches: string[];      // Frames matching the function or file
+    selfTime: number;
+    totalTime: number;
+    callers: QueryFrame[];  // Direct callers with the time spent in the target when called from them
+    callees: QueryFrame[];  // Direct callees with their time when called from the target
+  };
+  tree?: QueryFrame[];
+}
+
+// Interaction to Next Paint breakdown of a single interaction
+export interface InteractionAnalysis {
+  interaction_id: number;
+  type: string;
+  start_ms: number;
+  duration_ms: number;
+  input_delay_ms: number;
+  processing_time_ms: number;
+  presentation_delay_ms: number;
+  rating: MetricRating['rating'];
+  processing_functions: Array<{
+    function: string;
+    file: string;
+    self_time_ms: number;
+    location: string;
+    originalFile?: string;
+    originalLine?: number;
+    originalColumn?: number;
+    isSourceMapped?: boolean;
+  }>;
+}
+
+// Trace Analysis
+export type TraceCategory =
+  | 'scriptEvaluation'
+  | 'styleLayout'
+  | 'paintComposite'
+  | 'parsing'
+  | 'garbageCollection'
+  | 'other'
+  | 'idle';
+
+export interface TraceEvent {
+  name: string;
+  cat?: string;
+  ph: string;
+  ts: number;
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: Record<string, any>;
+}
+
+export interface TraceAnalysis {
+  main_thread: {
+    total_time_ms: number;
+    busy_time_ms: number;
+    idle_time_ms: number;
+    task_count: number;
+    long_task_count: number;
+  };
+  category_breakdown: Array<{
+    category: TraceCategory;
+    label: string;
+    time_ms: number;
+    percentage: string;
+  }>;
+  top_level_tasks: Array<{
+    name: string;
+    start_ms: number;
+    duration_ms: number;
+    dominant_category: TraceCategory;
+    url?: string;
+    breakdown: Partial<Record<TraceCategory, number>>;
+  }>;
 }
 
 
@@ -114,6 +561,7 @@ export interface AggregatedFunction {
   totalTime: number;
   hitCount: number;
   percentage: string;
+  exactSelfTime?: number;       // Unrounded self time in µs, for sums over many small functions
   originalFile?: string;
   originalLine?: number;
   originalColumn?: number;
@@ -123,4 +571,193 @@ export interface AggregatedFunction {
   fullOriginalPath?: string;    // Complete untruncated original path
   sourceMapUrl?: string;        // URL of the source map used
   resolvedStackTrace?: string;  // Complete stack trace context
+  sourceSnippet?: SourceSnippet;  // Original code around the hot line
+}
+
+// Lines of the original source around a resolved location, taken from the map's sourcesContent
+export interface SourceSnippet {
+  file: string;
+  startLine: number;      // Line number of the first line
+  highlightLine: number;  // Line number of the resolved location
+  lines: string[];
+}
+
+// Where the resolver looks for bundles and their source maps besides the live URLs
+export type SourceMapLookup = 'rewrite' | 'directory' | 'network';
+
+export interface SourceMapConfig {
+  rewrites?: Array<{
+    prefix: string;       // URL prefix, e.g. https://cdn.example.com/assets/
+    directory: string;    // Local directory the rest of the URL is resolved against
+  }>;
+  mapDirectories?: string[];  // Directories searched for .map files by bundle file name or debug ID
+  order?: SourceMapLookup[];  // Lookup order, defaults to rewrite, directory, network
+  snippetContext?: number;    // Lines of original source shown around hot lines, defaults to 3, 0 turns snippets off
+}
+
+// Sampled stacks of a profile with source-mapped frames, the input of the flamegraph exporters
+export type FlamegraphFormat = 'speedscope' | 'folded' | 'svg';
+
+export interface FlameFrame {
+  name: string;
+  file: string;
+  line: number;
+  column: number;
+  isSourceMapped: boolean;
+}
+
+export interface FlameProfile {
+  name: string;
+  frames: FlameFrame[];
+  samples: number[][];    // Frame indexes from the root to the leaf of each sample
+  weights: number[];      // Duration of each sample in µs
+}
+
+// Versioned machine-readable results, see schema.ts. Times are in ms.
+export interface MetricResult {
+  value: number;
+  rating: MetricRating['rating'];
+}
+
+export interface AuditStepResult {
+  name: string;
+  mode: FlowStepMode;
+  performanceScore: number | null;
+  metrics: Partial<Record<keyof PerformanceMetrics['coreWebVitals'], MetricResult | null>>;
+  longTasks: { count: number; totalDurationMs: number };
+}
+
+export interface AuditResult {
+  schemaVersion: string;
+  kind: 'audit';
+  runId: string | null;
+  url: string;
+  timestamp: string;
+  performanceScore: number | null;
+  metrics: AuditStepResult['metrics'];
+  longTasks: {
+    count: number;
+    totalDurationMs: number;
+    items: Array<{ url: string; startTimeMs: number; durationMs: number }>;
+  };
+  aggregate: AggregatedMetrics | null;
+  budget: BudgetResult | null;
+  steps: AuditStepResult[];
+}
+
+export interface FunctionResult {
+  name: string;
+  file: string;
+  location: string;
+  selfTimeMs: number;
+  cpuPercentage: number;
+  callCount: number;
+  original: { file: string; line: number; column: number; name: string | null } | null;
+  stackTrace: string[];   // Source-mapped frames from the function up to the outermost caller, since 1.1
+}
+
+// Original location of a source-mapped frame
+export interface OriginalLocationResult {
+  file: string;
+  line: number;
+  column?: number;
+  name?: string | null;
+}
+
+export interface MainThreadResult {
+  totalTimeMs: number;
+  busyTimeMs: number;
+  idleTimeMs: number;
+  taskCount: number;
+  longTaskCount: number;
+  categories: Array<{ category: TraceCategory; label: string; timeMs: number; percentage: number }>;
+  topLevelTasks: Array<{
+    name: string;
+    startTimeMs: number;
+    durationMs: number;
+    dominantCategory: TraceCategory;
+    url: string | null;
+    breakdown: Partial<Record<TraceCategory, number>>;  // ms by category
+  }>;
+}
+
+export interface InteractionResult {
+  interactionId: number;
+  type: string;
+  startTimeMs: number;
+  durationMs: number;
+  inputDelayMs: number;
+  processingTimeMs: number;
+  presentationDelayMs: number;
+  rating: MetricRating['rating'];
+  processingFunctions: Array<{
+    name: string;
+    file: string;
+    location: string;
+    selfTimeMs: number;
+    original: OriginalLocationResult | null;
+  }>;
+}
+
+export interface MemoryResult {
+  totalAllocatedBytes: number;
+  heap: {
+    initialBytes: number;
+    peakBytes: number;
+    finalBytes: number;
+    retainedBeforeBytes: number;
+    retainedAfterBytes: number;
+    retainedGrowthBytes: number;
+    durationMs: number;
+    timeline: Array<{ timeMs: number; usedBytes: number }>;
+  };
+  topAllocations: Array<{
+    name: string;
+    location: string;
+    selfSizeBytes: number;
+    percentage: number;
+    original: OriginalLocationResult | null;
+  }>;
+}
+
+export interface CoverageUsageResult {
+  totalBytes: number;
+  unusedBytes: number;
+  unusedPercentage: number;
+}
+
+export interface CoverageResult {
+  total: CoverageUsageResult;
+  js: CoverageUsageResult;
+  css: CoverageUsageResult;
+  files: Array<CoverageUsageResult & { name: string; type: 'js' | 'css'; isSourceMapped: boolean }>;
+  sources: Array<CoverageUsageResult & { name: string }>;
+  directories: Array<CoverageUsageResult & { name: string }>;
+  packages: Array<CoverageUsageResult & { name: string }>;
+}
+
+export interface ProfileResult {
+  totalExecutionTimeMs: number;
+  totalSamples: number;
+  sampleIntervalMs: number;
+  functions: FunctionResult[];
+  mainThread: MainThreadResult | null;  // camelCase since 2.0, like the sections below
+  interactions: InteractionResult[];
+  attribution: CPUAttribution | null;   // Since 1.2
+  statistics: MergedProfileStatistics | null;  // Since 1.3
+  memory: MemoryResult | null;                 // Since 1.4
+  coverage: CoverageResult | null;             // Since 1.5
+}
+
+export interface AnalysisResult {
+  schemaVersion: string;
+  kind: 'analysis';
+  runId: string | null;
+  audit: AuditResult | null;
+  profile: ProfileResult;
+  steps: Array<{
+    name: string;
+    mode: FlowStepMode;
+    profile: ProfileResult | null;
+  }>;
 }
@@ -1,26 +1,50 @@
-import { join } from 'node:path';
+import { AuditPhaseEvent, TestConfig } from '../runner/types.js';
+import { AuditRunner } from '../runner/audit.js';
+import { readFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { TestConfig } from '../runner/types.js';
-import CPUProfileAnalyzer from '../runner/analyzer.js';
-import { AuditRunner, outputDir } from '../runner/audit.js';
+import {
+  findRunOfProfile,
+  getRunUri,
+  listRuns,
+  parseRunUri,
+  resolveAnalysisInputs,
+  resolveRunUri,
+} from '../runner/runs.js';
+import { analyzeMergedProfiles, analyzeRun } from '../runner/analysis.js';
+import { compareReports, loadReport } from '../runner/compare.js';
+import { diffProfiles, loadProfile } from '../runner/diff.js';
+import { loadDeviceRegistry } from '../runner/devices.js';
+import { toAnalysisResult, toAuditResult } from '../runner/schema.js';
+import { exportFlamegraph, getFlamegraphMimeType, getFlamegraphPath, renderFlamegraph } from '../runner/flamegraph.js';
+import { queryProfile } from '../runner/query.js';
 import Formatter from '../runner/formatter.js';
 
+// Per request hooks from the MCP server
+export interface ToolCallContext {
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+}
+
 export class PerformanceHandlers {
-  async runAudit(config: TestConfig) {
+  async runAudit(config: TestConfig, context: ToolCallContext = {}) {
     try {
       const runner = new AuditRunner(config);
-      const report = await runner.runAudit(config.url);
+      if (context.onProgress) {
+        runner.on('phase', (event: AuditPhaseEvent) => context.onProgress(event.message));
+      }
+      const report = await runner.runAudit(config.url, context.signal);
       return {
         content: [
           {
             type: 'text',
-            text: `Performance audit completed for ${config.url}`,
+            text: `Performance audit completed for ${config.url} (run ID: ${report.runId})`,
           },
           {
             type: 'text',
-            text: report,
+            text: new Formatter().formatAuditReport(report),
           },
         ],
+        structuredContent: toAuditResult(report),
       };
     } catch (error) {
       throw new Error(`Performance audit failed: ${error}`);
@@ -28,25 +52,232 @@ export class PerformanceHandlers {
   }
 
   async analyzeData(args: any) {
-    const { cpuProfilePath, traceEventsPath } = args;
+    const { runId, cpuProfilePath, traceEventsPath, sourceMaps, firstPartyDomains, mergeProfiles } = args;
     try {
-      const analyzer = new CPUProfileAnalyzer();
-      const cpuReport = await analyzer.analyzeCPUProfile(cpuProfilePath, traceEventsPath);
-      const auditReportPath = join(outputDir, 'report.json');
-      const auditReport = await analyzer.analyzeAuditReport(auditReportPath);
-      const formatter = new Formatter();
-      const formattedAnalysis = formatter.formatAnalysis(cpuReport, auditReport);
+      const analysis = mergeProfiles?.length
+        ? await analyzeMergedProfiles(mergeProfiles, sourceMaps, { firstPartyDomains })
+        : await analyzeRun(await resolveAnalysisInputs({ runId, cpuProfilePath, traceEventsPath }), sourceMaps, { firstPartyDomains });
       return {
         content: [
           {
             type: 'text',
-            text: formattedAnalysis,
+            text: analysis.markdown,
           },
         ],
+        structuredContent: toAnalysisResult(analysis),
       };
     } catch (error) {
       throw new Error(`Performance data analysis failed: ${error.message}`);
     }
   }
 
+  async compareRuns(args: any) {
+    const { baseline, current } = args;
+    try {
+      const comparison = compareReports(await loadReport(baseline), await loadReport(current));
+      const formatter = new Formatter();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatter.formatComparison(comparison),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Run comparison failed: ${error.message}`);
+    }
+  }
+
+  async diffProfiles(args: any) {
+    const { baseline, current, limit, sourceMaps } = args;
+    try {
+      const diff = await diffProfiles(await loadProfile(baseline), await loadProfile(current), sourceMaps);
+      const formatter = new Formatter();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatter.formatProfileDiff(diff, limit),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`CPU profile diff failed: ${error.message}`);
+    }
+  }
+
+  async queryProfile(args: any) {
+    const { runId, cpuProfilePath, sourceMaps, ...query } = args;
+    try {
+      const inputs = await resolveAnalysisInputs({ runId, cpuProfilePath });
+      const result = await queryProfile(await loadProfile(inputs.cpuProfilePath), query, sourceMaps);
+      const formatter = new Formatter();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatter.formatProfileQuery(result),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Profile query failed: ${error.message}`);
+    }
+  }
+
+  async listDevices() {
+    try {
+      const formatter = new Formatter();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatter.formatDeviceList(loadDeviceRegistry()),
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Listing devices failed: ${error.message}`);
+    }
+  }
+
+  // Flamegraphs of saved runs are written into the run directory and returned with their
+  // resource URI, other profiles are rendered without writing anything on the server. The
+  // URI serves the flamegraph without a source map config, one symbolicated with a config
+  // is returned inline too
+  async exportFlamegraph(args: any) {
+    const { runId, cpuProfilePath, format = 'svg', sourceMaps } = args;
+    try {
+      const inputs = await resolveAnalysisInputs({ runId, cpuProfilePath });
+      const run = await findRunOfProfile(inputs.cpuProfilePath);
+      if (!run || sourceMaps) {
+        const result = await renderFlamegraph(inputs.cpuProfilePath, format, sourceMaps);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${format} flamegraph with ${result.frames} frames and ${result.samples} samples`,
+            },
+            {
+              type: 'text',
+              text: result.content,
+            },
+          ],
+        };
+      }
+      const result = await exportFlamegraph(inputs.cpuProfilePath, format);
+      const uri = getRunUri(run.runId, 'flamegraph', run.step, format);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${format} flamegraph with ${result.frames} frames and ${result.samples} samples saved as ${uri}`,
+          },
+          {
+            type: 'resource',
+            resource: { uri, mimeType: getFlamegraphMimeType(format), text: result.content },
+          },
+        ],
+      };
+    } catch (error) {
+      throw new Error(`Flamegraph export failed: ${error.message}`);
+    }
+  }
+
+  // Every saved run exposes its report, CPU profile, trace and analysis, and the
+  // CPU profile and trace of each flow step
+  async listResources() {
+    const runs = await listRuns();
+    const resources = [];
+    for (const manifest of runs) {
+      const { runId, url, timestamp, artifacts } = manifest;
+      const describe = (what: string) => `${what} of the audit of ${url} (${new Date(timestamp).toLocaleString()})`;
+      resources.push({
+        uri: getRunUri(runId, 'report'),
+        name: `${runId} report`,
+        description: describe('Audit report'),
+        mimeType: 'application/json',
+      });
+      if (artifacts.cpuProfile) {
+        resources.push({
+          uri: getRunUri(runId, 'cpu-profile'),
+          name: `${runId} CPU profile`,
+          description: describe('CPU profile'),
+          mimeType: 'application/json',
+        });
+        resources.push({
+          uri: getRunUri(runId, 'analysis'),
+          name: `${runId} analysis`,
+          description: describe('Performance analysis'),
+          mimeType: 'text/markdown',
+        });
+      }
+      if (artifacts.traceEvents) {
+        resources.push({
+          uri: getRunUri(runId, 'trace'),
+          name: `${runId} trace`,
+          description: describe('Trace events'),
+          mimeType: 'application/json',
+        });
+      }
+      (artifacts.steps || []).forEach((step, index) => {
+        if (step.cpuProfile) {
+          resources.push({
+            uri: getRunUri(runId, 'cpu-profile', index + 1),
+            name: `${runId} ${step.name} CPU profile`,
+            description: describe(`CPU profile of flow step "${step.name}"`),
+            mimeType: 'application/json',
+          });
+        }
+        if (step.traceEvents) {
+          resources.push({
+            uri: getRunUri(runId, 'trace', index + 1),
+            name: `${runId} ${step.name} trace`,
+            description: describe(`Trace events of flow step "${step.name}"`),
+            mimeType: 'application/json',
+          });
+        }
+      });
+    }
+    return { resources };
+  }
+
+  listResourceTemplates() {
+    return {
+      resourceTemplates: [
+        ...['report', 'cpu-profile', 'trace', 'analysis'].map(resource => ({
+          uriTemplate: `webperf://runs/{runId}/${resource}`,
+          name: `Run ${resource}`,
+          mimeType: resource === 'analysis' ? 'text/markdown' : 'application/json',
+        })),
+        {
+          uriTemplate: 'webperf://runs/{runId}/flamegraph/{format}',
+          name: 'Run flamegraph',
+          description: 'Flamegraph of the CPU profile as speedscope, folded or svg, rendered when first read',
+        },
+      ],
+    };
+  }
+
+  async readResource(uri: string) {
+    const { runId, resource, step, format } = parseRunUri(uri);
+    if (resource === 'flamegraph') {
+      const profilePath = await resolveRunUri(getRunUri(runId, 'cpu-profile', step));
+      const flamegraphPath = getFlamegraphPath(profilePath, format);
+      const text = existsSync(flamegraphPath)
+        ? await readFile(flamegraphPath, 'utf-8')
+        : (await exportFlamegraph(profilePath, format)).content;
+      return { contents: [{ uri, mimeType: getFlamegraphMimeType(format), text }] };
+    }
+    if (resource === 'analysis') {
+      if (step) {
+        throw new Error(`Analyses are available for whole runs only, use ${getRunUri(runId, 'analysis')}`);
+      }
+      const { markdown } = await analyzeRun(await resolveAnalysisInputs({ runId }));
+      return { contents: [{ uri, mimeType: 'text/markdown', text: markdown }] };
+    }
+    const artifactPath = await resolveRunUri(uri);
+    return { contents: [{ uri, mimeType: 'application/json', text: await readFile(artifactPath, 'utf-8') }] };
+  }
 }
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { WebPerformanceProfilerServer } from './server.js';
+import { logger } from '../runner/logger.js';
 
 const server = new WebPerformanceProfilerServer();
-server.run().catch(console.error);
\ No newline at end of file
+server.run().catch(error => logger.error('Failed to start the MCP server:', error));
\ No newline at end of file
@@ -3,12 +3,19 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  ServerNotification,
+  SetLevelRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { TestConfig } from '../runner/types.js';
 import { TOOL_DEFINITIONS } from './tools.js';
-import { PerformanceHandlers } from './handlers.js';
+import { PerformanceHandlers, ToolCallContext } from './handlers.js';
+import { createFileSink, createStreamSink, getEnvLogLevel, LogSink, logger } from '../runner/logger.js';
 
 export class WebPerformanceProfilerServer {
   private server: Server;
@@ -25,13 +32,43 @@ export class WebPerformanceProfilerServer {
           tools: {
             run_audit: true,
             analyze_data: true,
+            compare_runs: true,
+            diff_profiles: true,
+            list_devices: true,
+            export_flamegraph: true,
+            query_profile: true,
           },
+          resources: {},
+          logging: {},
         },
       },
     );
 
     this.handlers = new PerformanceHandlers();
+    this.setupLogging();
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+  }
+
+  // stdout carries the JSON-RPC stream, logs go to stderr (or WEB_PERF_LOG_FILE)
+  // and to the client as log notifications at the level it asked for
+  private setupLogging() {
+    const logFile = process.env.WEB_PERF_LOG_FILE;
+    const localSink = logFile
+      ? createFileSink(logFile, getEnvLogLevel())
+      : createStreamSink(process.stderr, getEnvLogLevel());
+    const clientSink: LogSink = {
+      level: 'info',
+      write: (level, message) => {
+        this.server.sendLoggingMessage({ level, logger: 'web-perf-mcp', data: message }).catch(() => { });
+      },
+    };
+    logger.setSinks([localSink, clientSink]);
+
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      clientSink.level = request.params.level;
+      return {};
+    });
   }
 
   private setupToolHandlers() {
@@ -41,14 +78,28 @@ export class WebPerformanceProfilerServer {
     });
 
     // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const context: ToolCallContext = {
+        signal: extra.signal,
+        onProgress: this.createProgressReporter(request.params._meta?.progressToken, extra.sendNotification),
+      };
       try {
         switch (name) {
           case 'run_audit':
-            return await this.handlers.runAudit(args as unknown as TestConfig);
+            return await this.handlers.runAudit(args as unknown as TestConfig, context);
           case 'analyze_data':
             return await this.handlers.analyzeData(args);
+          case 'compare_runs':
+            return await this.handlers.compareRuns(args);
+          case 'diff_profiles':
+            return await this.handlers.diffProfiles(args);
+          case 'list_devices':
+            return await this.handlers.listDevices();
+          case 'export_flamegraph':
+            return await this.handlers.exportFlamegraph(args);
+          case 'query_profile':
+            return await this.handlers.queryProfile(args);
           default:
             throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
         }
@@ -61,9 +112,50 @@ export class WebPerformanceProfilerServer {
     });
   }
 
+  // Progress notifications are only sent when the client asked for them with a progress token
+  private createProgressReporter(
+    progressToken: ProgressToken | undefined,
+    sendNotification: (notification: ServerNotification) => Promise<void>
+  ): ToolCallContext['onProgress'] {
+    if (progressToken === undefined) {
+      return undefined;
+    }
+    let progress = 0;
+    return (message: string) => {
+      progress++;
+      sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message },
+      }).catch(() => { });
+    };
+  }
+
+  // Saved runs are readable as webperf://runs/<runId>/... resources
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return await this.handlers.listResources();
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return this.handlers.listResourceTemplates();
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      try {
+        return await this.handlers.readResource(uri);
+      } catch (error) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Error reading ${uri}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
-    console.log('Web Performance Profiler MCP Server started');
+    logger.info('Web Performance Profiler MCP Server started');
   }
 }
@@ -1,3 +1,38 @@
+import { ANALYSIS_RESULT_SCHEMA, AUDIT_RESULT_SCHEMA } from '../runner/schema.js';
+
+const SOURCE_MAPS_SCHEMA = {
+  type: 'object',
+  description: 'Where to find source maps that are not served with the bundles, e.g. in a local build directory',
+  properties: {
+    rewrites: {
+      type: 'array',
+      description: 'Bundle URLs starting with prefix are read from the local directory instead',
+      items: {
+        type: 'object',
+        properties: {
+          prefix: { type: 'string', description: 'URL prefix, e.g. https://cdn.example.com/assets/' },
+          directory: { type: 'string', description: 'Absolute path of the local directory' }
+        },
+        required: ['prefix', 'directory']
+      }
+    },
+    mapDirectories: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Absolute paths of directories with .map files, matched by bundle file name or debug ID'
+    },
+    order: {
+      type: 'array',
+      items: { type: 'string', enum: ['rewrite', 'directory', 'network'] },
+      description: 'Lookup order, defaults to rewrite, directory, network. Leave out network to never fetch from the live site'
+    },
+    snippetContext: {
+      type: 'number',
+      description: 'Lines of original source shown around hot lines when the maps embed their sources, defaults to 3, 0 turns snippets off'
+    }
+  }
+};
+
 export const TOOL_DEFINITIONS = [
   {
     name: 'run_audit',
@@ -8,23 +43,211 @@ export const TOOL_DEFINITIONS = [
         url: { type: 'string', description: 'URL to audit' },
         device: {
           type: 'string',
-          enum: ['desktop', 'mobile'],
           default: 'desktop',
-          description: 'Device type for emulation'
+          description: 'Device profile for emulation, use list_devices to see the available profiles'
+        },
+        devices: {
+          type: 'object',
+          description: 'User-defined device profiles by name, selectable with device',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              description: { type: 'string' },
+              formFactor: { type: 'string', enum: ['desktop', 'mobile'] },
+              viewport: {
+                type: 'object',
+                properties: {
+                  width: { type: 'number' },
+                  height: { type: 'number' }
+                },
+                required: ['width', 'height']
+              },
+              deviceScaleFactor: { type: 'number', default: 1 },
+              userAgent: { type: 'string' },
+              touch: { type: 'boolean' },
+              throttling: { description: 'Default throttling preset or custom config for this device' }
+            },
+            required: ['formFactor', 'viewport']
+          }
         },
         profile: {
           type: 'boolean',
           default: true,
           description: 'Include detailed CPU profiling data'
         },
+        memory: {
+          type: 'boolean',
+          default: false,
+          description: 'Record a sampling heap profile and the JS heap size over time, analyze_data then reports the top allocating functions (source-mapped) and how much the heap retained after GC'
+        },
+        coverage: {
+          type: 'boolean',
+          default: false,
+          description: 'Record JS and CSS coverage of the page load, analyze_data then reports the unused bytes by file and, through the source maps, by original directory and npm package'
+        },
         headless: {
           type: 'boolean',
           default: true,
           description: 'Run in headless mode'
+        },
+        runs: {
+          type: 'number',
+          default: 1,
+          minimum: 1,
+          description: 'Number of times to repeat the audit, reports median, p75, min/max and standard deviation and profiles the run closest to the median'
+        },
+        throttling: {
+          description: 'Network and CPU throttling applied to both the profiling navigation and the Lighthouse run, a preset name or a custom config. Lighthouse\'s default throttling is used when omitted',
+          anyOf: [
+            {
+              type: 'string',
+              enum: ['none', 'fast4g', 'slow4g', '3g']
+            },
+            {
+              type: 'object',
+              properties: {
+                preset: { type: 'string', enum: ['custom'] },
+                latency: { type: 'number', description: 'Request latency in ms' },
+                downloadThroughput: { type: 'number', description: 'Download throughput in Kbps' },
+                uploadThroughput: { type: 'number', description: 'Upload throughput in Kbps' },
+                cpuSlowdown: { type: 'number', description: 'CPU slowdown multiplier' }
+              },
+              required: ['preset']
+            }
+          ]
+        },
+        auth: {
+          type: 'object',
+          description: 'Authentication performed before auditing, credentials for form login are read from environment variables on the server',
+          properties: {
+            preset: {
+              type: 'string',
+              enum: ['kibana'],
+              description: 'Predefined login flow'
+            },
+            form: {
+              type: 'object',
+              properties: {
+                loginUrl: { type: 'string' },
+                usernameSelector: { type: 'string' },
+                passwordSelector: { type: 'string' },
+                submitSelector: { type: 'string' },
+                usernameEnv: { type: 'string', description: 'Environment variable holding the username' },
+                passwordEnv: { type: 'string', description: 'Environment variable holding the password' },
+                waitForSelector: { type: 'string', description: 'Selector to wait for after submitting instead of a navigation' }
+              }
+            },
+            cookies: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  value: { type: 'string' },
+                  domain: { type: 'string' },
+                  path: { type: 'string' }
+                },
+                required: ['name', 'value']
+              }
+            },
+            headers: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Extra HTTP headers, e.g. an Authorization bearer token'
+            },
+            storageStatePath: {
+              type: 'string',
+              description: 'Absolute path to a saved storage state JSON file (cookies and localStorage)'
+            }
+          }
+        },
+        steps: {
+          type: 'array',
+          description: 'Scripted user flow. Each navigate, timespan (startTimespan...endTimespan) and snapshot is measured as its own Lighthouse step with its own CPU profile, the interactions in between run inside the current timespan',
+          items: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: ['navigate', 'click', 'type', 'waitForSelector', 'scroll', 'startTimespan', 'endTimespan', 'snapshot']
+              },
+              name: { type: 'string', description: 'Step name for navigate, startTimespan and snapshot' },
+              url: { type: 'string', description: 'URL for navigate, defaults to the audited URL' },
+              selector: { type: 'string', description: 'Target element for click, type, waitForSelector and scroll' },
+              text: { type: 'string', description: 'Text to type' },
+              timeout: { type: 'number', description: 'Timeout in ms for waitForSelector' },
+              x: { type: 'number', description: 'Horizontal scroll offset' },
+              y: { type: 'number', description: 'Vertical scroll offset, defaults to one viewport height' }
+            },
+            required: ['type']
+          }
+        },
+        interactions: {
+          type: 'array',
+          description: 'Interactions (click, type, waitForSelector, scroll) performed in a timespan after the page has loaded to measure Interaction to Next Paint. Each interaction is split into input delay, processing time and presentation delay with the functions that ran during processing',
+          items: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: ['click', 'type', 'waitForSelector', 'scroll']
+              },
+              selector: { type: 'string', description: 'Target element for click, type, waitForSelector and scroll' },
+              text: { type: 'string', description: 'Text to type' },
+              timeout: { type: 'number', description: 'Timeout in ms for waitForSelector' },
+              x: { type: 'number', description: 'Horizontal scroll offset' },
+              y: { type: 'number', description: 'Vertical scroll offset, defaults to one viewport height' }
+            },
+            required: ['type']
+          }
+        },
+        budget: {
+          type: 'object',
+          description: 'Performance budget to assert, the result lists which budgets passed and failed',
+          properties: {
+            metrics: {
+              type: 'object',
+              description: 'Maximum values in ms (cls unitless), performanceScore is a minimum',
+              properties: {
+                performanceScore: { type: 'number' },
+                fcp: { type: 'number' },
+                lcp: { type: 'number' },
+                cls: { type: 'number' },
+                ttfb: { type: 'number' },
+                tbt: { type: 'number' },
+                inp: { type: 'number', description: 'Only measured when interactions are given' }
+              }
+            },
+            longTasks: {
+              type: 'object',
+              properties: {
+                maxCount: { type: 'number' },
+                maxTotalDuration: { type: 'number', description: 'Maximum total long task duration in ms' }
+              }
+            },
+            cpu: {
+              type: 'array',
+              description: 'Maximum CPU self time in ms for an original source file/directory or an npm package',
+              items: {
+                type: 'object',
+                properties: {
+                  file: { type: 'string' },
+                  package: { type: 'string' },
+                  maxSelfTime: { type: 'number' }
+                },
+                required: ['maxSelfTime']
+              }
+            }
+          }
+        },
+        sourceMaps: {
+          ...SOURCE_MAPS_SCHEMA,
+          description: `${SOURCE_MAPS_SCHEMA.description}, CPU budgets on files are matched against the original paths it resolves`
         }
       },
       required: ['url']
-    }
+    },
+    outputSchema: AUDIT_RESULT_SCHEMA
   },
   {
     name: 'analyze_data',
@@ -32,16 +255,163 @@ export const TOOL_DEFINITIONS = [
     inputSchema: {
       type: 'object',
       properties: {
+        runId: {
+          type: 'string',
+          description: 'Run ID returned by run_audit (or a webperf://runs/<runId> resource URI), its CPU profile, trace events and audit report are analyzed together'
+        },
         cpuProfilePath: {
           type: 'string',
-          description: 'Absolute path to the CPU profile JSON file (for flame graph generation and find hot functions)'
+          description: 'Absolute path or webperf://runs/<runId>/cpu-profile resource URI of the CPU profile (for flame graph generation and find hot functions), not needed when runId is given'
         },
         traceEventsPath: {
           type: 'string',
-          description: 'Absolute path to the trace events JSON file'
+          description: 'Absolute path or webperf://runs/<runId>/trace resource URI of the trace events (for main thread breakdown by category and top-level task)'
+        },
+        sourceMaps: SOURCE_MAPS_SCHEMA,
+        firstPartyDomains: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Domains whose scripts count as first party in the CPU time by origin, subdomains included. Defaults to the audited site'
+        },
+        mergeProfiles: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Run IDs or absolute paths of CPU profiles of the same page to merge into one statistical profile instead, a run ID adds the profiles of all its iterations. The report shows mean times with the variance and a confidence per function'
         }
       },
-      required: ['cpuProfilePath']
+      required: []
+    },
+    outputSchema: ANALYSIS_RESULT_SCHEMA
+  },
+  {
+    name: 'compare_runs',
+    description: 'Compare two saved audit reports (before/after) and flag each metric change as an improvement, a regression or noise',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        baseline: {
+          type: 'string',
+          description: 'Run ID or absolute path to the report.json of the baseline (before) audit'
+        },
+        current: {
+          type: 'string',
+          description: 'Run ID or absolute path to the report.json of the current (after) audit'
+        }
+      },
+      required: ['baseline', 'current']
+    }
+  },
+  {
+    name: 'diff_profiles',
+    description: 'Diff two CPU profiles function by function, matched by their source-mapped identity, to find functions that got slower, faster, were added or went away',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        baseline: {
+          type: 'string',
+          description: 'Run ID or absolute path to the baseline (before) CPU profile'
+        },
+        current: {
+          type: 'string',
+          description: 'Run ID or absolute path to the current (after) CPU profile'
+        },
+        limit: {
+          type: 'number',
+          default: 15,
+          description: 'Maximum number of functions listed per section'
+        },
+        sourceMaps: SOURCE_MAPS_SCHEMA
+      },
+      required: ['baseline', 'current']
+    }
+  },
+  {
+    name: 'list_devices',
+    description: 'List the device profiles available for run_audit with their viewport, pixel ratio, touch support and default throttling',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: 'export_flamegraph',
+    description: 'Export the CPU profile of a run as a flamegraph with source-mapped function names and files: speedscope JSON, folded stacks (flamegraph.pl, inferno) or a self-contained SVG. The flamegraph is returned with its webperf://runs/<runId>/flamegraph/<format> resource URI, profiles outside a run and flamegraphs symbolicated with sourceMaps are returned inline',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: {
+          type: 'string',
+          description: 'Run ID returned by run_audit'
+        },
+        cpuProfilePath: {
+          type: 'string',
+          description: 'Absolute path or webperf://runs/<runId>/cpu-profile resource URI of the CPU profile, not needed when runId is given'
+        },
+        format: {
+          type: 'string',
+          enum: ['speedscope', 'folded', 'svg'],
+          default: 'svg',
+          description: 'Flamegraph format'
+        },
+        sourceMaps: SOURCE_MAPS_SCHEMA
+      },
+      required: []
+    }
+  },
+  {
+    name: 'query_profile',
+    description: 'Explore the call tree of a CPU profile beyond the report: callers and callees of a function or original file with their inclusive and exclusive time, or top-down and bottom-up trees rooted at any node, with focus and exclude filters',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: {
+          type: 'string',
+          description: 'Run ID returned by run_audit'
+        },
+        cpuProfilePath: {
+          type: 'string',
+          description: 'Absolute path or webperf://runs/<runId>/cpu-profile resource URI of the CPU profile, not needed when runId is given'
+        },
+        view: {
+          type: 'string',
+          enum: ['function', 'top-down', 'bottom-up'],
+          description: 'function lists the callers and callees of the function or file, top-down and bottom-up return call trees. Defaults to function when a function or file is given, top-down otherwise'
+        },
+        function: {
+          type: 'string',
+          description: 'Function name, minified or original'
+        },
+        file: {
+          type: 'string',
+          description: 'Part of the original file path or script URL, e.g. src/charts/'
+        },
+        nodeId: {
+          type: 'number',
+          description: 'Call tree node to root the top-down or bottom-up tree at, as listed in earlier query results'
+        },
+        focus: {
+          type: 'string',
+          description: 'Only keep stacks through a frame with this function name or file, rooted at that frame'
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Leave out frames with these function names or files, their time goes to their caller'
+        },
+        depth: {
+          type: 'number',
+          default: 4,
+          description: 'Levels of the top-down and bottom-up trees'
+        },
+        limit: {
+          type: 'number',
+          default: 10,
+          description: 'Maximum number of entries per level'
+        },
+        sourceMaps: SOURCE_MAPS_SCHEMA
+      },
+      required: []
     }
   }
 ];